@@ -1,6 +1,8 @@
-// API wrapper for LLMs compatible with OpenAI GPT protocol
+// API wrapper for LLMs compatible with OpenAI GPT protocol and other providers
 
 import { RateLimiter } from './rate-limiter'
+import { getProviderAdapter, ProviderAdapter, ProviderId } from './providers'
+import { PLACEHOLDER_PATTERN } from './utils'
 
 export interface TranslationRequest {
   text: string
@@ -8,22 +10,102 @@ export interface TranslationRequest {
   apiEndpoint: string
   apiKey: string
   model: string
+  provider?: ProviderId
+  stream?: boolean
+  // 'json' sends a batch as {segments: [{id, text}]} and expects {translations: [{id, text}]} back
+  format?: 'text' | 'json'
+  // Re-request after a translation broke its placeholders: the prompt lists every placeholder it must keep
+  strictPlaceholders?: boolean
+  // Called with each completed segment while a streamed batch response arrives
+  onSegment?: (index: number, text: string) => void
+  // Counted against the tokens-per-minute budget when one is configured
+  estimatedTokens?: number
+  // Aborts the request, any pending retry and its place in the rate limiter queue
+  signal?: AbortSignal
+}
+
+export interface RetryPolicy {
+  maxAttempts: number  // Total attempts including the first request
+  baseDelayMs: number
+  maxDelayMs: number
 }
 
 export interface ApiConfig {
   rps?: number
+  adaptiveRateLimit?: boolean
+  tpm?: number  // Tokens per minute, 0 for unlimited
+  retry?: Partial<RetryPolicy>
 }
 
+export type ErrorCategory =
+  | 'rate_limit'
+  | 'server'
+  | 'network'
+  | 'auth'
+  | 'context_length'
+  | 'bad_request'
+  | 'cancelled'
+  | 'unknown'
+
 export interface TranslationResponse {
   translatedText: string
   error?: string
+  errorCategory?: ErrorCategory
+}
+
+// HTTP failure with enough detail to decide whether it is worth retrying
+class ApiError extends Error {
+  constructor(
+    message: string,
+    readonly category: ErrorCategory,
+    readonly retryAfterMs?: number
+  ) {
+    super(message)
+    this.name = 'ApiError'
+  }
 }
 
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000
+}
+
+const RETRYABLE_CATEGORIES: ErrorCategory[] = ['rate_limit', 'server', 'network']
+
+// Bump whenever the system prompts change so cached translations from older prompts are not reused
+export const PROMPT_TEMPLATE_VERSION = 2
+
+// Matches the batch delimiter including whitespace variations introduced by the model
+const SEGMENT_DELIMITER_PATTERN = /\s*-{3,}DELIMITER-{3,}\s*/
+
 let rateLimiter: RateLimiter | null = null
+let retryPolicy: RetryPolicy = { ...DEFAULT_RETRY_POLICY }
 
 export function configureApi(config: ApiConfig): void {
-  if (!rateLimiter || config.rps !== undefined) {
-    rateLimiter = new RateLimiter(config.rps || 0.9)
+  if (!rateLimiter) {
+    rateLimiter = new RateLimiter(config.rps || 0.9, {
+      adaptive: config.adaptiveRateLimit,
+      tpm: config.tpm
+    })
+  } else {
+    // Update in place so an adaptive limiter keeps the rate it has learned
+    if (config.rps !== undefined) {
+      rateLimiter.updateRPS(config.rps || 0.9)
+    }
+    if (config.adaptiveRateLimit !== undefined) {
+      rateLimiter.setAdaptive(config.adaptiveRateLimit)
+    }
+    if (config.tpm !== undefined) {
+      rateLimiter.updateTPM(config.tpm)
+    }
+  }
+  if (config.retry) {
+    retryPolicy = {
+      maxAttempts: config.retry.maxAttempts ?? DEFAULT_RETRY_POLICY.maxAttempts,
+      baseDelayMs: config.retry.baseDelayMs ?? DEFAULT_RETRY_POLICY.baseDelayMs,
+      maxDelayMs: config.retry.maxDelayMs ?? DEFAULT_RETRY_POLICY.maxDelayMs
+    }
   }
 }
 
@@ -35,8 +117,13 @@ export function updateRateLimit(rps: number): void {
   }
 }
 
+// Current requests per second, which differs from the configured rate in adaptive mode
+export function getEffectiveRateLimit(): number | null {
+  return rateLimiter ? rateLimiter.getEffectiveRPS() : null
+}
+
 export async function translateText(request: TranslationRequest): Promise<TranslationResponse> {
-  const { text, targetLanguage, apiEndpoint, apiKey, model } = request
+  const { text, targetLanguage, apiEndpoint, apiKey, model, provider, stream, format, strictPlaceholders, onSegment, estimatedTokens, signal } = request
   
   const languageNames = {
     ja: 'Japanese',
@@ -49,7 +136,21 @@ export async function translateText(request: TranslationRequest): Promise<Transl
   // Check if this is a batch request
   const isBatch = text.includes('\n---DELIMITER---\n')
   
-  const systemPrompt = isBatch 
+  const systemPrompt = format === 'json'
+    ? `You are a professional translator. Translate each text segment to ${targetLanguageName}.
+The input is a JSON object {"segments": [{"id": "...", "text": "..."}]}.
+CRITICAL RULES:
+1. Translate the "text" of each segment independently
+2. Reply with a JSON object {"translations": [{"id": "...", "text": "..."}]} containing one entry per segment, with its id unchanged
+3. NEVER remove or modify HTML placeholders like <a_0>, </a_0>, <span_1>, </span_1> etc.
+4. ALL placeholders must appear in the EXACT same format in your translation
+5. Self-closing placeholders like <keep_0/> stand for code or math; keep them where they belong in the sentence
+6. Return only the JSON object, no explanations or code fences
+
+Example:
+Input: {"segments": [{"id": "0", "text": "<a_0>Hello <span_1>world</span_1></a_0>"}]}
+Output: {"translations": [{"id": "0", "text": "<a_0>こんにちは<span_1>世界</span_1></a_0>"}]}`
+    : isBatch 
     ? `You are a professional translator. Translate each text segment to ${targetLanguageName}. 
 The input contains multiple text segments separated by "---DELIMITER---".
 CRITICAL RULES:
@@ -58,7 +159,8 @@ CRITICAL RULES:
 3. NEVER remove or modify HTML placeholders like <a_0>, </a_0>, <span_1>, </span_1> etc.
 4. ALL placeholders must appear in the EXACT same format in your translation
 5. Placeholders mark HTML structure and MUST be preserved exactly as-is
-6. Return only the translations with delimiters, no explanations
+6. Self-closing placeholders like <keep_0/> stand for code or math; keep them where they belong in the sentence
+7. Return only the translations with delimiters, no explanations
 
 Example:
 Input: <a_0>Hello <span_1>world</span_1></a_0>
@@ -68,6 +170,7 @@ CRITICAL: You MUST preserve ALL HTML placeholders EXACTLY as they appear.
 Placeholders look like <tag_n> and </tag_n> where tag is a name and n is a number.
 These placeholders MUST appear in your translation in the EXACT same format.
 Never remove, modify, or skip any placeholder.
+Self-closing placeholders like <keep_0/> stand for code or math; keep them where they belong in the sentence.
 
 Example:
 Input: <a_0>Click <span_1>here</span_1></a_0> to continue
@@ -75,40 +178,252 @@ Output: <a_0><span_1>ここ</span_1>をクリック</a_0>して続行
 
 Only return the translated text.`
   
-  try {
-    if (!rateLimiter) {
-      rateLimiter = new RateLimiter(0.9)
+  const placeholders = strictPlaceholders ? text.match(PLACEHOLDER_PATTERN) || [] : []
+  const strictRules = placeholders.length > 0
+    ? `
+
+STRICT: A previous translation of this text lost or reordered its placeholders.
+Your translation must contain each of these placeholders exactly once: ${placeholders.join(' ')}
+Keep every opening and closing pair around the words it wraps, nested the same way as in the input.`
+    : ''
+  
+  if (!rateLimiter) {
+    rateLimiter = new RateLimiter(0.9)
+  }
+  const limiter = rateLimiter
+  
+  const adapter = getProviderAdapter(provider)
+  const providerRequest = adapter.buildRequest({
+    apiEndpoint,
+    apiKey,
+    model,
+    systemPrompt: systemPrompt + strictRules,
+    text,
+    stream: stream || false,
+    json: format === 'json'
+  })
+  
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const response = await limiter.execute(() => fetch(providerRequest.url, {
+        method: 'POST',
+        headers: providerRequest.headers,
+        body: JSON.stringify(providerRequest.body),
+        signal
+      }).catch(error => {
+        // fetch rejects with a TypeError when the network request itself fails
+        throw error instanceof TypeError ? new ApiError(error.message, 'network') : error
+      }), { cost: estimatedTokens, signal })
+      
+      if (!response.ok) {
+        throw await createApiError(response)
+      }
+      limiter.reportSuccess()
+      
+      if (stream && response.body) {
+        const translatedText = await readStreamedContent(response.body, adapter, onSegment)
+        return { translatedText }
+      }
+      
+      const data = await response.json()
+      const translatedText = adapter.parseResponse(data)
+      
+      return { translatedText }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      // Fetch, stream reads and the limiter queue all reject differently once aborted
+      const errorCategory = signal?.aborted ? 'cancelled' : categorizeError(error)
+      if (errorCategory === 'rate_limit') {
+        limiter.reportThrottle()
+      }
+      
+      if (!RETRYABLE_CATEGORIES.includes(errorCategory) || attempt >= retryPolicy.maxAttempts) {
+        return {
+          translatedText: '',
+          error: message,
+          errorCategory
+        }
+      }
+      
+      const delay = getRetryDelay(error, attempt)
+      console.debug(`Retrying translation in ${delay}ms (attempt ${attempt + 1}/${retryPolicy.maxAttempts}): ${message}`)
+      try {
+        await sleep(delay, signal)
+      } catch {
+        return { translatedText: '', error: 'Translation cancelled', errorCategory: 'cancelled' }
+      }
     }
-    
-    const response = await rateLimiter.execute(() => fetch(apiEndpoint, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`
-      },
-      body: JSON.stringify({
-        model,
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: text }
-        ],
-        temperature: 0.3,
-        max_tokens: 4000
-      })
-    }))
-    
-    if (!response.ok) {
-      throw new Error(`API request failed: ${response.status} ${response.statusText}`)
+  }
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason)
+      return
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal?.reason)
     }
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+// Classify a failed response, reading the body only when it can tell us more
+async function createApiError(response: Response): Promise<ApiError> {
+  const { status } = response
+  const message = `API request failed: ${status} ${response.statusText}`
+  
+  if (status === 429) {
+    return new ApiError(message, 'rate_limit', parseRetryAfter(response.headers))
+  }
+  if (status === 408 || status >= 500) {
+    return new ApiError(message, 'server', parseRetryAfter(response.headers))
+  }
+  if (status === 401 || status === 403) {
+    return new ApiError(message, 'auth')
+  }
+  if (status === 400 || status === 413) {
+    let body = ''
+    try {
+      body = await response.text()
+    } catch {
+      // The body is only a hint; fall through to a generic bad request
+    }
+    if (/context[_ ]length|maximum context|too many tokens|prompt is too long/i.test(body)) {
+      return new ApiError(message, 'context_length')
+    }
+  }
+  return new ApiError(message, 'bad_request')
+}
+
+function categorizeError(error: unknown): ErrorCategory {
+  if (error instanceof ApiError) {
+    return error.category
+  }
+  // Anything else, such as a response body without the expected fields, would fail the same way again
+  return 'unknown'
+}
+
+// Prefer the server's own hint, otherwise back off exponentially with jitter
+function getRetryDelay(error: unknown, attempt: number): number {
+  if (error instanceof ApiError && error.retryAfterMs !== undefined) {
+    return Math.min(error.retryAfterMs, retryPolicy.maxDelayMs)
+  }
+  
+  const exponential = Math.min(retryPolicy.baseDelayMs * 2 ** (attempt - 1), retryPolicy.maxDelayMs)
+  return Math.round(exponential / 2 + Math.random() * exponential / 2)
+}
+
+// Read Retry-After (seconds or HTTP date) or the x-ratelimit-reset-* headers
+function parseRetryAfter(headers: Headers | undefined): number | undefined {
+  if (!headers) return undefined
+  
+  const retryAfter = headers.get('retry-after')
+  if (retryAfter) {
+    const seconds = Number(retryAfter)
+    if (!isNaN(seconds)) {
+      return seconds * 1000
+    }
+    const date = Date.parse(retryAfter)
+    if (!isNaN(date)) {
+      return Math.max(0, date - Date.now())
+    }
+  }
+  
+  // Wait for whichever limit resets last, as we cannot tell which one was hit
+  const resets = ['x-ratelimit-reset-requests', 'x-ratelimit-reset-tokens', 'x-ratelimit-reset']
+    .map(name => headers.get(name))
+    .filter((value): value is string => !!value)
+    .map(parseResetDuration)
+    .filter((ms): ms is number => ms !== undefined)
+  
+  return resets.length > 0 ? Math.max(...resets) : undefined
+}
+
+// Parse reset values such as "1s", "6m0s", "250ms" or a Unix timestamp in seconds
+function parseResetDuration(value: string): number | undefined {
+  const trimmed = value.trim()
+  
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    const seconds = Number(trimmed)
+    // Large values are absolute epoch timestamps rather than durations
+    return seconds > 1e9 ? Math.max(0, seconds * 1000 - Date.now()) : seconds * 1000
+  }
+  
+  const units: Record<string, number> = { h: 3600000, m: 60000, s: 1000, ms: 1 }
+  let total = 0
+  let matched = false
+  for (const [, amount, unit] of trimmed.matchAll(/(\d+(?:\.\d+)?)(ms|h|m|s)/g)) {
+    total += Number(amount) * units[unit]
+    matched = true
+  }
+  return matched ? total : undefined
+}
+
+// Read a streamed response, reporting each segment as soon as its delimiter arrives
+async function readStreamedContent(
+  body: ReadableStream<Uint8Array>,
+  adapter: ProviderAdapter,
+  onSegment?: (index: number, text: string) => void
+): Promise<string> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+  let content = ''
+  let emittedSegments = 0
+  
+  const emitSegments = (final: boolean) => {
+    if (!onSegment) return
+    const segments = content.split(SEGMENT_DELIMITER_PATTERN)
+    // The last segment may still be receiving deltas until the stream ends
+    const completed = final ? segments.length : segments.length - 1
+    for (; emittedSegments < completed; emittedSegments++) {
+      onSegment(emittedSegments, segments[emittedSegments].trim())
+    }
+  }
+  
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
     
-    const data = await response.json()
-    const translatedText = data.choices[0].message.content
+    buffer += decoder.decode(value, { stream: true })
+    const lines = buffer.split('\n')
+    buffer = lines.pop() || ''
     
-    return { translatedText }
-  } catch (error) {
-    return {
-      translatedText: '',
-      error: error instanceof Error ? error.message : 'Unknown error'
+    for (const line of lines) {
+      content += parseStreamLine(line, adapter)
     }
+    emitSegments(false)
   }
-}
\ No newline at end of file
+  
+  content += parseStreamLine(buffer + decoder.decode(), adapter)
+  emitSegments(true)
+  
+  return content
+}
+
+// Extract the content delta from a single SSE or NDJSON line
+function parseStreamLine(line: string, adapter: ProviderAdapter): string {
+  let payload = line.trim()
+  
+  if (adapter.streamFormat === 'sse') {
+    // Only data lines carry payloads; event names and comments are ignored
+    if (!payload.startsWith('data:')) return ''
+    payload = payload.slice(5).trim()
+  }
+  
+  if (!payload || payload === '[DONE]') return ''
+  
+  try {
+    return adapter.parseStreamEvent(JSON.parse(payload))
+  } catch {
+    // Ignore keep-alive comments and malformed events
+    return ''
+  }
+}
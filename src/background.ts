@@ -1,6 +1,10 @@
 // Background script for AI Translation Extension
 
 import { configureApi } from './api'
+import { IndexedDBCacheStore, handleCacheMessage } from './persistent-cache'
+
+// Translations persisted here are shared by every tab through cache messages
+const persistentCache = new IndexedDBCacheStore()
 
 // Helper function to update context menu title
 async function updateContextMenuTitle() {
@@ -11,6 +15,12 @@ async function updateContextMenuTitle() {
   chrome.contextMenus.update('translate-page', {
     title: `AI Translation: ${targetLanguage}`
   })
+  chrome.contextMenus.update('translate-page-inplace', {
+    title: `AI Translation in place: ${targetLanguage}`
+  })
+  chrome.contextMenus.update('translate-selection', {
+    title: `AI Translation of selection: ${targetLanguage}`
+  })
 }
 
 chrome.runtime.onInstalled.addListener(async () => {
@@ -26,6 +36,16 @@ chrome.runtime.onInstalled.addListener(async () => {
     title: `AI Translation: ${targetLanguage}`,
     contexts: ['page'],
   })
+  chrome.contextMenus.create({
+    id: 'translate-page-inplace',
+    title: `AI Translation in place: ${targetLanguage}`,
+    contexts: ['page'],
+  })
+  chrome.contextMenus.create({
+    id: 'translate-selection',
+    title: `AI Translation of selection: ${targetLanguage}`,
+    contexts: ['selection'],
+  })
 })
 
 // Handle context menu clicks
@@ -33,6 +53,17 @@ chrome.contextMenus.onClicked.addListener((info, tab) => {
   if (info.menuItemId === 'translate-page' && tab?.id) {
     // Send message to content script to start translation
     chrome.tabs.sendMessage(tab.id, { action: 'translate' })
+  } else if (info.menuItemId === 'translate-page-inplace' && tab?.id) {
+    chrome.tabs.sendMessage(tab.id, { action: 'translate', mode: 'inplace' })
+  } else if (info.menuItemId === 'translate-selection' && tab?.id) {
+    chrome.tabs.sendMessage(tab.id, { action: 'translateSelection', text: info.selectionText })
+  }
+})
+
+// Handle keyboard shortcuts; the content script reads the selection itself
+chrome.commands.onCommand.addListener((command, tab) => {
+  if (command === 'translate-selection' && tab?.id) {
+    chrome.tabs.sendMessage(tab.id, { action: 'translateSelection' })
   }
 })
 
@@ -50,10 +81,14 @@ chrome.storage.onChanged.addListener((changes, areaName) => {
 })
 
 // Handle messages from popup or content script
-chrome.runtime.onMessage.addListener((request, sender, _sendResponse) => {
+chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
+  if (handleCacheMessage(request, persistentCache, sendResponse)) {
+    return true
+  }
+  
   if (request.action === 'translate' && sender.tab?.id) {
     // Forward translate request to content script
-    chrome.tabs.sendMessage(sender.tab.id, { action: 'translate' })
+    chrome.tabs.sendMessage(sender.tab.id, { action: 'translate', mode: request.mode })
   } else if (request.action === 'updateBadge' && sender.tab?.id) {
     // Update extension badge based on translation status
     const tabId = sender.tab.id
@@ -70,6 +105,10 @@ chrome.runtime.onMessage.addListener((request, sender, _sendResponse) => {
       case 'completed':
         chrome.action.setBadgeText({ text: '', tabId })
         break
+      case 'cancelled':
+        chrome.action.setBadgeText({ text: '×', tabId })
+        chrome.action.setBadgeBackgroundColor({ color: '#5f6368', tabId })
+        break
     }
   }
   
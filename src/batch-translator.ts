@@ -1,13 +1,27 @@
 // Batch translation functionality
-import { translationCache } from './cache'
-import { htmlToPlaceholders, placeholdersToHtml } from './utils'
+import { translationCache, CacheScope } from './cache'
+import { htmlToPlaceholders, placeholdersToHtml, validatePlaceholders, PLACEHOLDER_PATTERN } from './utils'
 import { translateText } from './api'
+import { ProviderId } from './providers'
+import type { TranslatableAttribute } from './element-translator'
 
 interface TranslationSettings {
   apiEndpoint: string
   apiKey: string
   model: string
   targetLanguage: string
+  provider?: ProviderId
+}
+
+// Cached translations are only reused for the same model and endpoint
+function getCacheScope(settings: TranslationSettings): CacheScope {
+  return { model: settings.model, apiEndpoint: settings.apiEndpoint }
+}
+
+// A translation that broke its item's placeholders, kept as the fallback for the strict re-request
+interface PlaceholderRepair {
+  item: TranslationItem
+  translation: string
 }
 
 interface TranslationItem {
@@ -18,49 +32,384 @@ interface TranslationItem {
   chunkIndex?: number  // For tracking split chunks
   totalChunks?: number // Total number of chunks for this element
   chunkId?: string     // Unique ID to group chunks together
+  attribute?: string   // Set when the item is an attribute value rather than the element's content
+  seams?: ChunkSeam[]  // Where chunk i ends and chunk i + 1 starts, shared by all chunks of an element
+  sourceText?: string  // The element's unsplit placeholder text, which the joined chunks are cached under
+}
+
+// An attribute inside an element whose content is being translated, with what is needed to find it again
+interface NestedAttribute extends TranslatableAttribute {
+  container: Element
+  value: string | null
+}
+
+interface ChunkSeam {
+  reopened: string[]  // Placeholder pairs closed at the end of the chunk and reopened at the start of the next
+  spaced: boolean     // Whether the source had whitespace at the split, which CJK text usually does not
 }
 
+// How a batch is framed: segments joined by a delimiter, or a JSON array of segments with ids
+export type BatchProtocol = 'delimiter' | 'json'
+
 export interface BatchTranslationConfig {
   maxCharactersPerBatch?: number
   batchDelimiter?: string
+  protocol?: BatchProtocol  // JSON maps results by id, so a dropped segment cannot shift the others
+  streaming?: boolean  // Apply each segment as soon as the streamed response completes it
+  maxConcurrentBatches?: number  // Batches in flight at once, still gated by the rate limiter
+  bilingual?: boolean  // Keep the original and add the translation below it instead of replacing it
+  maxBisectRequests?: number  // Extra requests allowed per batch to recover from a segment count mismatch
+}
+
+// How often responses came back with the wrong number of segments, and what recovering cost
+export interface MismatchStats {
+  batches: number         // Batches sent, including the halves of split batches
+  mismatches: number      // Responses whose segment count did not match their batch
+  bisectRequests: number  // Extra requests made by splitting mismatched batches
+  unrecovered: number     // Items marked failed because the request cap was reached
+}
+
+export interface TranslateElementsOptions {
+  signal?: AbortSignal  // Stops scheduling batches and cancels the ones in flight
+  attributes?: TranslatableAttribute[]  // Attribute values, batched with the elements or after the element they sit in
 }
 
 const DEFAULT_MAX_CHARACTERS = 4000 // Maximum safe limit for most models
 const DEFAULT_DELIMITER = '\n---DELIMITER---\n' // 17 characters
+const DEFAULT_MAX_CONCURRENT_BATCHES = 3
+const DEFAULT_MAX_BISECT_REQUESTS = 8
+const PROMPT_TOKEN_OVERHEAD = 300 // System prompt and message framing
+
+// Rough token count for a request: input plus a similar-sized output
+export function estimateTokens(text: string): number {
+  // CJK characters are roughly one token each, other scripts about four characters per token
+  const cjkCount = (text.match(/[\u3000-\u9fff\uac00-\ud7af\uff00-\uffef]/g) || []).length
+  const inputTokens = cjkCount + Math.ceil((text.length - cjkCount) / 4)
+  return inputTokens * 2 + PROMPT_TOKEN_OVERHEAD
+}
+
+// Break text into pieces no longer than maxSize that chunks can be packed from: sentences in the source
+// language, then the clauses of an overlong sentence, then its words, and only as a last resort the
+// characters of an overlong word. Placeholders are never cut, and neither are surrogate pairs
+function splitIntoPieces(text: string, maxSize: number, locale?: string): string[] {
+  const pieces: string[] = []
+  
+  for (const sentence of segment(text, 'sentence', locale)) {
+    if (sentence.length <= maxSize) {
+      pieces.push(sentence)
+      continue
+    }
+    
+    for (const clause of splitAfter(sentence, CLAUSE_END_PATTERN)) {
+      if (clause.length <= maxSize) {
+        pieces.push(clause)
+        continue
+      }
+      
+      for (const word of splitWords(clause, locale)) {
+        if (word.length <= maxSize) {
+          pieces.push(word)
+          continue
+        }
+        
+        // A single overlong word, such as a URL: split between grapheme clusters
+        let slice = ''
+        for (const grapheme of segment(word, 'grapheme', locale)) {
+          if (slice && slice.length + grapheme.length > maxSize) {
+            pieces.push(slice)
+            slice = ''
+          }
+          slice += grapheme
+        }
+        pieces.push(slice)
+      }
+    }
+  }
+  
+  return attachEdgePlaceholders(pieces.filter(piece => piece))
+}
+
+// Whether text has anything to translate besides placeholders
+function hasText(text: string): boolean {
+  return text.replace(PLACEHOLDER_PATTERN, '').trim() !== ''
+}
+
+// Length of the placeholders at one edge of the text that pass the test, with the whitespace around them
+function placeholderRunLength(text: string, edge: 'start' | 'end', test: (tag: string) => boolean): number {
+  const tags = Array.from(text.matchAll(PLACEHOLDER_PATTERN))
+  if (edge === 'start') {
+    let end = 0
+    for (const tag of tags) {
+      if (text.slice(end, tag.index).trim() || !test(tag[0])) break
+      end = tag.index! + tag[0].length
+    }
+    return end
+  }
+  
+  let start = text.length
+  for (const tag of tags.reverse()) {
+    if (text.slice(tag.index! + tag[0].length, start).trim() || !test(tag[0])) break
+    start = tag.index!
+  }
+  return text.length - start
+}
+
+// Sentence boundaries fall before a closing placeholder such as the </a_0> in "。</a_0>", so move closing
+// placeholders at the start of a piece onto the previous piece, opening ones at its end onto the next, and
+// pieces that are only placeholders onto a neighbour; a chunk then never reopens a pair just to close it
+function attachEdgePlaceholders(pieces: string[]): string[] {
+  const attached: string[] = []
+  let carried = ''
+  
+  for (const piece of pieces) {
+    let text = carried + piece
+    carried = ''
+    
+    const leading = placeholderRunLength(text, 'start', tag => tag.startsWith('</'))
+    if (leading > 0 && attached.length > 0) {
+      attached[attached.length - 1] += text.slice(0, leading)
+      text = text.slice(leading)
+    }
+    
+    const trailing = placeholderRunLength(text, 'end', tag => !tag.startsWith('</') && !tag.endsWith('/>'))
+    if (trailing > 0) {
+      carried = text.slice(text.length - trailing)
+      text = text.slice(0, text.length - trailing)
+    }
+    
+    if (hasText(text)) {
+      attached.push(text)
+    } else if (attached.length > 0) {
+      attached[attached.length - 1] += text
+    } else {
+      carried = text + carried
+    }
+  }
+  
+  if (carried) {
+    if (attached.length > 0) {
+      attached[attached.length - 1] += carried
+    } else {
+      attached.push(carried)
+    }
+  }
+  return attached
+}
+
+// Commas and semicolons followed by a space (not "1,000"), or their CJK forms which need none
+const CLAUSE_END_PATTERN = /[,;:]\s+|[、，；：]\s*/g
+
+// Words of the text between placeholders; the placeholders themselves stay whole
+function splitWords(text: string, locale?: string): string[] {
+  const words: string[] = []
+  let start = 0
+  for (const match of text.matchAll(PLACEHOLDER_PATTERN)) {
+    words.push(...segment(text.slice(start, match.index), 'word', locale), match[0])
+    start = match.index! + match[0].length
+  }
+  words.push(...segment(text.slice(start), 'word', locale))
+  return words
+}
+
+// Intl.Segmenter finds sentence ends such as "。" or "？" and word boundaries in scripts without spaces
+function segment(text: string, granularity: 'grapheme' | 'word' | 'sentence', locale?: string): string[] {
+  return Array.from(getSegmenter(granularity, locale).segment(text), part => part.segment)
+}
+
+const segmenters = new Map<string, Intl.Segmenter>()
+
+function getSegmenter(granularity: 'grapheme' | 'word' | 'sentence', locale?: string): Intl.Segmenter {
+  const key = `${granularity}:${locale || ''}`
+  let segmenter = segmenters.get(key)
+  if (!segmenter) {
+    try {
+      segmenter = new Intl.Segmenter(locale, { granularity })
+    } catch {
+      // Page lang attributes are not always valid language tags
+      segmenter = new Intl.Segmenter(undefined, { granularity })
+    }
+    segmenters.set(key, segmenter)
+  }
+  return segmenter
+}
+
+// Split text after each match of the pattern, keeping every character
+function splitAfter(text: string, pattern: RegExp): string[] {
+  const parts: string[] = []
+  let start = 0
+  for (const match of text.matchAll(pattern)) {
+    const end = match.index! + match[0].length
+    parts.push(text.slice(start, end))
+    start = end
+  }
+  parts.push(text.slice(start))
+  return parts
+}
+
+// Join chunk translations, dropping the placeholder pairs closed and reopened at each seam when
+// the model kept them at the edges of its chunks
+function joinChunks(translations: string[], seams: ChunkSeam[] = []): string {
+  return translations.reduce((joined, translation, index) => {
+    if (index === 0) return translation
+    
+    let left = joined.trimEnd()
+    let right = translation.trimStart()
+    const seam = seams[index - 1]
+    for (const tag of seam?.reopened || []) {
+      const closing = tag.replace('<', '</')
+      if (!left.endsWith(closing) || !right.startsWith(tag)) break
+      left = left.slice(0, -closing.length).trimEnd()
+      right = right.slice(tag.length).trimStart()
+    }
+    return seam && !seam.spaced ? left + right : `${left} ${right}`
+  }, '')
+}
+
+// Map {id, text} results back to batch positions; missing, unknown or malformed entries stay empty
+function parseJsonTranslations(response: string, count: number): string[] {
+  const translations: string[] = new Array(count).fill('')
+  
+  let data: unknown
+  try {
+    // Models without a JSON mode sometimes wrap the object in a code fence
+    data = JSON.parse(response.trim().replace(/^```(?:json)?\s*|\s*```$/g, ''))
+  } catch {
+    console.error('Batch response is not valid JSON')
+    return translations
+  }
+  
+  const results = Array.isArray(data) ? data : (data as { translations?: unknown })?.translations
+  if (!Array.isArray(results)) {
+    console.error('Batch response has no translations array')
+    return translations
+  }
+  
+  for (const result of results) {
+    const { id, text } = (result || {}) as { id?: unknown; text?: unknown }
+    const index = Number(id)
+    if (typeof text === 'string' && (typeof id === 'number' || (typeof id === 'string' && id.trim() !== '')) &&
+        Number.isInteger(index) && index >= 0 && index < count) {
+      translations[index] = text
+    }
+  }
+  return translations
+}
 
 export class BatchTranslator {
   private config: Required<BatchTranslationConfig>
   private chunkTranslations: Map<string, string[]> = new Map() // Store translations for chunks
+  private uncachedChunks: Set<string> = new Set() // Chunked elements with a chunk that must not be cached
+  private mismatchStats: MismatchStats = { batches: 0, mismatches: 0, bisectRequests: 0, unrecovered: 0 }
   
   constructor(config: BatchTranslationConfig = {}) {
     this.config = {
       maxCharactersPerBatch: config.maxCharactersPerBatch || DEFAULT_MAX_CHARACTERS,
-      batchDelimiter: config.batchDelimiter || DEFAULT_DELIMITER
+      batchDelimiter: config.batchDelimiter || DEFAULT_DELIMITER,
+      streaming: config.streaming || false,
+      maxConcurrentBatches: Math.max(1, config.maxConcurrentBatches || DEFAULT_MAX_CONCURRENT_BATCHES),
+      bilingual: config.bilingual || false,
+      protocol: config.protocol || 'delimiter',
+      maxBisectRequests: config.maxBisectRequests ?? DEFAULT_MAX_BISECT_REQUESTS
     }
   }
   
+  getMismatchStats(): MismatchStats {
+    return { ...this.mismatchStats }
+  }
+  
   // Process elements in batches
   async translateElements(
     elements: Element[], 
     settings: TranslationSettings,
-    progressCallback?: (processed: number, total: number) => void
+    progressCallback?: (processed: number, total: number) => void,
+    options: TranslateElementsOptions = {}
   ): Promise<void> {
-    const items = this.prepareTranslationItems(elements)
-    const batches = this.createBatches(items, settings)
+    const { signal, attributes = [] } = options
+    const elementItems = this.prepareTranslationItems(elements)
     
-    let processedItems = 0
-    const totalItems = items.length
+    // Writing an element's translation replaces the nodes inside it, so their attributes wait for it
+    const nested: NestedAttribute[] = []
+    const standalone: TranslatableAttribute[] = []
+    for (const attribute of attributes) {
+      const container = elementItems.find(item => item.element !== attribute.element && item.element.contains(attribute.element))?.element
+      if (container) {
+        nested.push({ ...attribute, container, value: attribute.element.getAttribute(attribute.name) })
+      } else {
+        standalone.push(attribute)
+      }
+    }
     
-    // Process each batch
-    for (const batch of batches) {
-      await this.processBatch(batch, settings)
-      
-      // Update progress
+    const items = [...elementItems, ...this.prepareAttributeItems(standalone)]
+    let processedItems = 0
+    const totalItems = items.length + nested.length
+    const onBatchDone = (batch: TranslationItem[]) => {
+      // Update progress as each batch completes
       processedItems += batch.length
       if (progressCallback) {
         progressCallback(processedItems, totalItems)
       }
     }
+    
+    await this.runBatches(await this.createBatches(items, settings), settings, onBatchDone, signal)
+    
+    if (nested.length > 0 && !signal?.aborted) {
+      const nestedItems = this.prepareAttributeItems(this.relocateAttributes(nested))
+      items.push(...nestedItems)
+      await this.runBatches(await this.createBatches(nestedItems, settings), settings, onBatchDone, signal)
+    }
+    
+    if (signal?.aborted) {
+      // Release unfinished elements so a later run can pick them up again
+      for (const item of items) {
+        if (item.attribute) {
+          if (item.element.getAttribute(item.attribute) === item.originalHTML) {
+            item.element.removeAttribute(`data-original-attr-${item.attribute}`)
+          }
+        } else if (!item.element.hasAttribute('data-translated')) {
+          item.element.removeAttribute('data-original-html')
+        }
+      }
+    }
+  }
+  
+  // Each worker pulls the next batch until none are left, so batches finish out of order
+  private async runBatches(
+    batches: TranslationItem[][],
+    settings: TranslationSettings,
+    onBatchDone: (batch: TranslationItem[]) => void,
+    signal?: AbortSignal
+  ): Promise<void> {
+    let nextBatch = 0
+    const worker = async () => {
+      while (nextBatch < batches.length && !signal?.aborted) {
+        const batch = batches[nextBatch++]
+        await this.processBatch(batch, settings, signal)
+        if (signal?.aborted) break
+        onBatchDone(batch)
+      }
+    }
+    
+    const workerCount = Math.min(this.config.maxConcurrentBatches, batches.length)
+    await Promise.all(Array.from({ length: workerCount }, worker))
+  }
+  
+  // Find nested attributes again in the markup written for their container, by name and original value;
+  // the translated half of a bilingual element is searched so the original half keeps its values
+  private relocateAttributes(nested: NestedAttribute[]): TranslatableAttribute[] {
+    const relocated: TranslatableAttribute[] = []
+    
+    for (const { container, name, value } of nested) {
+      if (!value) continue
+      const root = container.querySelector(':scope > .ai-translation-translated') || container
+      root.querySelectorAll('*').forEach(element => {
+        if (element.getAttribute(name) === value &&
+            !relocated.some(attribute => attribute.element === element && attribute.name === name)) {
+          relocated.push({ element, name })
+        }
+      })
+    }
+    
+    return relocated
   }
   
   private prepareTranslationItems(elements: Element[]): TranslationItem[] {
@@ -99,88 +448,102 @@ export class BatchTranslator {
     return items
   }
   
-  // Split oversized item into smaller chunks based on sentences
+  // Attribute values are plain text, so they need no placeholders; originals are kept for restore
+  private prepareAttributeItems(attributes: TranslatableAttribute[]): TranslationItem[] {
+    const items: TranslationItem[] = []
+    
+    for (const { element, name } of attributes) {
+      const originalAttribute = `data-original-attr-${name}`
+      const value = element.getAttribute(name)
+      if (!value?.trim() || element.hasAttribute(originalAttribute)) {
+        continue
+      }
+      
+      element.setAttribute(originalAttribute, value)
+      items.push({
+        element,
+        originalHTML: value,
+        placeholderText: value.trim(),
+        placeholderMap: new Map(),
+        attribute: name
+      })
+    }
+    
+    return items
+  }
+  
+  // Split an oversized item into chunks at sentence boundaries, falling back to clauses, words and then characters.
+  // A placeholder pair open at a split is closed at the end of the chunk and reopened at the start of the
+  // next, so every chunk is balanced on its own; applyTranslation removes those seams again
   private splitOversizedItem(item: TranslationItem): TranslationItem[] {
-    const chunks: TranslationItem[] = []
     const text = item.placeholderText
     const chunkId = `chunk-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
-    
-    // Try to split by sentence boundaries
-    // Match sentence endings followed by space and capital letter or end of string
-    const sentences = text.match(/[^.!?]+[.!?]+(\s+|$)/g) || [text]
-    
-    let currentChunk = ''
     const maxSize = Math.floor(this.config.maxCharactersPerBatch * 0.9) // Use 90% to leave room for safety
     
-    for (const sentence of sentences) {
-      // If adding this sentence would exceed the limit, save current chunk
-      if (currentChunk && (currentChunk.length + sentence.length) > maxSize) {
-        chunks.push({
-          ...item,
-          placeholderText: currentChunk.trim(),
-          chunkId
-        })
-        currentChunk = sentence
-      } else {
-        currentChunk += sentence
-      }
-    }
+    // Only tags closed somewhere in the text open a pair; <br_0> or <keep_0/> never need closing
+    const pairs = new Set((text.match(PLACEHOLDER_PATTERN) || []).filter(tag => tag.startsWith('</')).map(tag => tag.replace('</', '<')))
+    const closeAll = (open: string[]) => open.slice().reverse().map(tag => tag.replace('<', '</')).join('')
     
-    // Add remaining chunk
-    if (currentChunk.trim()) {
-      chunks.push({
-        ...item,
-        placeholderText: currentChunk.trim(),
-        chunkId
-      })
-    }
+    const chunkTexts: string[] = []
+    const seams: ChunkSeam[] = []
+    let open: string[] = []
+    let current = ''
     
-    // If we couldn't split effectively (single chunk still too large), force split
-    if (chunks.length === 1 && chunks[0].placeholderText.length > this.config.maxCharactersPerBatch) {
-      const forcedChunks: TranslationItem[] = []
-      const text = chunks[0].placeholderText
-      const chunkSize = Math.floor(this.config.maxCharactersPerBatch * 0.9)
-      
-      for (let i = 0; i < text.length; i += chunkSize) {
-        forcedChunks.push({
-          ...item,
-          placeholderText: text.slice(i, i + chunkSize),
-          chunkId
-        })
+    // The language of the element, or of the page, decides where sentences and words end
+    const locale = item.element.closest('[lang]')?.getAttribute('lang') || undefined
+    
+    for (const piece of splitIntoPieces(text, maxSize, locale)) {
+      const closing = closeAll(open)
+      if (hasText(current) && current.length + piece.length + closing.length > maxSize) {
+        chunkTexts.push((current + closing).trim())
+        seams.push({ reopened: [...open], spaced: /\s$/.test(current) || /^\s/.test(piece) })
+        current = open.join('')
       }
+      current += piece
       
-      // Add chunk info
-      forcedChunks.forEach((chunk, index) => {
-        chunk.chunkIndex = index
-        chunk.totalChunks = forcedChunks.length
-      })
-      
-      return forcedChunks
+      for (const tag of piece.match(PLACEHOLDER_PATTERN) || []) {
+        if (tag.startsWith('</')) {
+          const index = open.lastIndexOf(tag.replace('</', '<'))
+          if (index !== -1) open.splice(index, 1)
+        } else if (pairs.has(tag)) {
+          open.push(tag)
+        }
+      }
+    }
+    if (current.trim()) {
+      chunkTexts.push(current.trim())
     }
     
-    // Add chunk info
-    chunks.forEach((chunk, index) => {
-      chunk.chunkIndex = index
-      chunk.totalChunks = chunks.length
-    })
+    if (chunkTexts.length <= 1) {
+      return [item]
+    }
     
-    return chunks.length > 0 ? chunks : [item]
+    return chunkTexts.map((chunkText, index) => ({
+      ...item,
+      placeholderText: chunkText,
+      sourceText: text,
+      chunkId,
+      chunkIndex: index,
+      totalChunks: chunkTexts.length,
+      seams
+    }))
   }
   
-  private createBatches(items: TranslationItem[], settings: TranslationSettings): TranslationItem[][] {
+  private async createBatches(items: TranslationItem[], settings: TranslationSettings): Promise<TranslationItem[][]> {
     const batches: TranslationItem[][] = []
     let currentBatch: TranslationItem[] = []
     let currentSize = 0
     
-    // Filter out cached items first
+    // Filter out cached items first; each lookup is a round trip to the background, so they run together
+    const cachedTranslations = await Promise.all(
+      items.map(item => translationCache.get(item.placeholderText, settings.targetLanguage, getCacheScope(settings)))
+    )
     const uncachedItems: TranslationItem[] = []
-    for (const item of items) {
-      const cachedTranslation = translationCache.get(item.placeholderText, settings.targetLanguage)
+    for (const [index, item] of items.entries()) {
+      const cachedTranslation = cachedTranslations[index]
       if (cachedTranslation) {
         // Apply cached translation immediately
-        const restoredHTML = placeholdersToHtml(cachedTranslation, item.placeholderMap)
-        item.element.innerHTML = restoredHTML
-        item.element.setAttribute('data-translated', 'true')
+        this.applyResult(item, cachedTranslation)
       } else {
         uncachedItems.push(item)
       }
@@ -227,14 +590,30 @@ export class BatchTranslator {
     return batches
   }
   
-  private async processBatch(batch: TranslationItem[], settings: TranslationSettings): Promise<void> {
+  private async processBatch(
+    batch: TranslationItem[],
+    settings: TranslationSettings,
+    signal?: AbortSignal,
+    bisectBudget = { remaining: this.config.maxBisectRequests }
+  ): Promise<void> {
     if (batch.length === 0) return
+    this.mismatchStats.batches++
     
     // Always use batch processing, even for single items
     // This ensures all elements go through the same pipeline
     
     // Create batch text
-    const batchText = batch.map(item => item.placeholderText).join(this.config.batchDelimiter)
+    const useJson = this.config.protocol === 'json'
+    const batchText = useJson
+      ? JSON.stringify({ segments: batch.map((item, index) => ({ id: String(index), text: item.placeholderText })) })
+      : batch.map(item => item.placeholderText).join(this.config.batchDelimiter)
+    
+    // Streamed segments can only be split reliably with the default delimiter
+    const streamSegments = this.config.streaming && !useJson && this.config.batchDelimiter === DEFAULT_DELIMITER
+    const streamed = new Map<number, string>()
+    const repairs: PlaceholderRepair[] = []
+    // Streamed segments are cached once the final segment count confirms their positions; a single one cannot shift
+    const cacheWhileStreaming = batch.length === 1
     
     try {
       const response = await translateText({
@@ -242,14 +621,31 @@ export class BatchTranslator {
         targetLanguage: settings.targetLanguage,
         apiEndpoint: settings.apiEndpoint,
         apiKey: settings.apiKey,
-        model: settings.model
+        model: settings.model,
+        provider: settings.provider,
+        estimatedTokens: estimateTokens(batchText),
+        signal,
+        stream: this.config.streaming,
+        format: useJson ? 'json' : 'text',
+        onSegment: streamSegments ? (index, segment) => {
+          if (index < batch.length && segment) {
+            this.acceptTranslation(batch[index], segment, settings, repairs, cacheWhileStreaming)
+            streamed.set(index, segment)
+          }
+        } : undefined
       })
       
+      if (response.errorCategory === 'cancelled') {
+        return
+      }
+      
       if (!response.error && response.translatedText) {
         // Split the response - handle various delimiter formats
         // The delimiter might appear with extra whitespace or formatting
         let translations: string[]
-        if (this.config.batchDelimiter === '\n---DELIMITER---\n') {
+        if (useJson) {
+          translations = parseJsonTranslations(response.translatedText, batch.length)
+        } else if (this.config.batchDelimiter === DEFAULT_DELIMITER) {
           // For default delimiter, use flexible regex to handle variations
           const delimiterPattern = /\s*-{3,}DELIMITER-{3,}\s*/
           translations = response.translatedText.split(delimiterPattern)
@@ -258,102 +654,266 @@ export class BatchTranslator {
           translations = response.translatedText.split(this.config.batchDelimiter)
         }
         
+        // A dropped or extra delimiter shifts every later segment, so none of the positions can be trusted
+        if (!useJson && batch.length > 1 && translations.length !== batch.length) {
+          // Segments streamed before the mismatch showed may sit on the wrong elements, so they are retried too
+          streamed.forEach((_, index) => this.resetItem(batch[index]))
+          await this.bisectBatch(batch, translations.length, settings, signal, bisectBudget)
+          return
+        }
+        
+        if (!cacheWhileStreaming) {
+          streamed.forEach((translation, index) => {
+            if (!repairs.some(repair => repair.item === batch[index])) {
+              translationCache.set(batch[index].placeholderText, settings.targetLanguage, translation, getCacheScope(settings))
+            }
+          })
+        }
+        
         // Apply translations to elements
         for (let i = 0; i < batch.length && i < translations.length; i++) {
+          // Already applied while streaming
+          if (streamed.has(i)) continue
+          
           const item = batch[i]
           const translation = translations[i].trim()
           
           if (translation) {
-            // If this is a chunk, store it for later assembly
-            if (item.chunkId && item.totalChunks && item.totalChunks > 1) {
-              if (!this.chunkTranslations.has(item.chunkId)) {
-                this.chunkTranslations.set(item.chunkId, new Array(item.totalChunks))
-              }
-              const chunks = this.chunkTranslations.get(item.chunkId)!
-              chunks[item.chunkIndex!] = translation
-              
-              // Check if all chunks are ready
-              if (chunks.every(chunk => chunk !== undefined)) {
-                // Combine all chunks
-                const fullTranslation = chunks.join(' ')
-                
-                // Cache the full translation
-                translationCache.set(item.originalHTML, settings.targetLanguage, fullTranslation)
-                
-                // Apply to element
-                const restoredHTML = placeholdersToHtml(fullTranslation, item.placeholderMap)
-                item.element.innerHTML = restoredHTML
-                item.element.setAttribute('data-translated', 'true')
-                item.element.removeAttribute('data-translation-failed')
-                
-                // Clean up
-                this.chunkTranslations.delete(item.chunkId)
-              }
-            } else {
-              // Normal single item translation
-              // Cache the translation
-              translationCache.set(item.placeholderText, settings.targetLanguage, translation)
-              
-              // Apply to element
-              const restoredHTML = placeholdersToHtml(translation, item.placeholderMap)
-              item.element.innerHTML = restoredHTML
-              item.element.setAttribute('data-translated', 'true')
-              // Remove failed flag if it was set
-              item.element.removeAttribute('data-translation-failed')
-            }
+            this.acceptTranslation(item, translation, settings, repairs)
           } else {
             // Mark as failed if no translation received
-            item.element.setAttribute('data-translation-failed', 'true')
+            this.markFailed(item)
           }
         }
         
-        // Mark any remaining items as failed if we got fewer translations
-        if (translations.length < batch.length) {
-          for (let i = translations.length; i < batch.length; i++) {
-            batch[i].element.setAttribute('data-translation-failed', 'true')
-          }
-        }
+        await this.repairPlaceholders(repairs, settings, signal)
       } else {
-        console.error('Batch translation failed:', response.error || 'No translated text')
+        console.error(`Batch translation failed (${response.errorCategory || 'empty response'}):`, response.error || 'No translated text')
+        // Flag the untranslated elements so they can be retried later
+        batch.forEach((item, index) => {
+          if (!streamed.has(index)) {
+            this.markFailed(item)
+          }
+        })
+        // Segments streamed before the failure may still need their placeholders repaired
+        await this.repairPlaceholders(repairs, settings, signal)
       }
     } catch (error) {
       console.error('Batch translation error:', error)
       // Fall back to individual translation
       for (const item of batch) {
-        await this.processSingleItem(item, settings)
+        if (signal?.aborted) return
+        await this.processSingleItem(item, settings, signal)
+      }
+    }
+  }
+  
+  // Apply a translation whose placeholders survived, or queue it for a strict re-request
+  private acceptTranslation(
+    item: TranslationItem,
+    translation: string,
+    settings: TranslationSettings,
+    repairs: PlaceholderRepair[],
+    cache = true
+  ): void {
+    if (this.hasBrokenPlaceholders(item, translation)) {
+      repairs.push({ item, translation })
+      return
+    }
+    this.applyTranslation(item, translation, settings, cache)
+  }
+  
+  // Attribute values are plain text and have no placeholders to break
+  private hasBrokenPlaceholders(item: TranslationItem, translation: string): boolean {
+    return !item.attribute && item.placeholderMap.size > 0 && !validatePlaceholders(item.placeholderText, translation).valid
+  }
+  
+  // Re-request each broken segment on its own with the placeholders spelled out; if that is broken too,
+  // placeholdersToHtml's heuristics repair the first translation as a last resort, which is not cached
+  // so the next visit asks again
+  private async repairPlaceholders(repairs: PlaceholderRepair[], settings: TranslationSettings, signal?: AbortSignal): Promise<void> {
+    for (const { item, translation } of repairs) {
+      if (signal?.aborted) return
+      
+      let retried = ''
+      try {
+        const response = await translateText({
+          text: item.placeholderText,
+          targetLanguage: settings.targetLanguage,
+          apiEndpoint: settings.apiEndpoint,
+          apiKey: settings.apiKey,
+          model: settings.model,
+          provider: settings.provider,
+          estimatedTokens: estimateTokens(item.placeholderText),
+          strictPlaceholders: true,
+          signal
+        })
+        if (response.errorCategory === 'cancelled') return
+        if (!response.error) {
+          retried = response.translatedText.trim()
+        }
+      } catch (error) {
+        console.error('Placeholder re-request error:', error)
+      }
+      
+      if (retried && validatePlaceholders(item.placeholderText, retried).valid) {
+        this.applyTranslation(item, retried, settings)
+      } else {
+        console.debug('Placeholders still broken after a strict re-request, repairing heuristically')
+        this.applyTranslation(item, translation, settings, false)
       }
     }
   }
   
-  private async processSingleItem(item: TranslationItem, settings: TranslationSettings): Promise<void> {
+  // Discard a misaligned response and translate each half of the batch separately, recursing until
+  // the segments line up or the extra request budget for the original batch runs out
+  private async bisectBatch(
+    batch: TranslationItem[],
+    receivedSegments: number,
+    settings: TranslationSettings,
+    signal: AbortSignal | undefined,
+    bisectBudget: { remaining: number }
+  ): Promise<void> {
+    this.mismatchStats.mismatches++
+    
+    const middle = Math.ceil(batch.length / 2)
+    const parts = [batch.slice(0, middle), batch.slice(middle)]
+    
+    if (bisectBudget.remaining < parts.length) {
+      console.warn(`Batch of ${batch.length} returned ${receivedSegments} segments and the retry limit was reached`)
+      this.mismatchStats.unrecovered += batch.length
+      batch.forEach(item => this.markFailed(item))
+      return
+    }
+    
+    console.debug(`Batch of ${batch.length} returned ${receivedSegments} segments, retrying in ${parts.length} parts`)
+    bisectBudget.remaining -= parts.length
+    this.mismatchStats.bisectRequests += parts.length
+    for (const part of parts) {
+      if (signal?.aborted) return
+      await this.processBatch(part, settings, signal, bisectBudget)
+    }
+  }
+  
+  // Apply a translated segment to its element, assembling split chunks first
+  private applyTranslation(item: TranslationItem, translation: string, settings: TranslationSettings, cache = true): void {
+    // If this is a chunk, store it for later assembly
+    if (item.chunkId && item.totalChunks && item.totalChunks > 1) {
+      if (!this.chunkTranslations.has(item.chunkId)) {
+        // Filled rather than sparse so every() sees chunks that have not arrived yet
+        this.chunkTranslations.set(item.chunkId, new Array(item.totalChunks).fill(undefined))
+      }
+      const chunks = this.chunkTranslations.get(item.chunkId)!
+      chunks[item.chunkIndex!] = translation
+      if (!cache) {
+        this.uncachedChunks.add(item.chunkId)
+      }
+      
+      // Check if all chunks are ready
+      if (chunks.every(chunk => chunk !== undefined)) {
+        // Combine all chunks
+        const fullTranslation = joinChunks(chunks, item.seams)
+        
+        // Cache the full translation
+        if (!this.uncachedChunks.has(item.chunkId)) {
+          translationCache.set(item.sourceText!, settings.targetLanguage, fullTranslation, getCacheScope(settings))
+        }
+        
+        // Apply to element
+        this.applyResult(item, fullTranslation)
+        
+        // Clean up
+        this.chunkTranslations.delete(item.chunkId)
+        this.uncachedChunks.delete(item.chunkId)
+      }
+    } else {
+      // Normal single item translation
+      // Cache the translation
+      if (cache) {
+        translationCache.set(item.placeholderText, settings.targetLanguage, translation, getCacheScope(settings))
+      }
+      
+      // Apply to element
+      this.applyResult(item, translation)
+    }
+  }
+  
+  // Write a translation back to its attribute, or restore its placeholders and write it as markup
+  private applyResult(item: TranslationItem, translation: string): void {
+    if (item.attribute) {
+      item.element.setAttribute(item.attribute, translation.trim())
+      return
+    }
+    this.applyHTML(item, placeholdersToHtml(translation, item.placeholderMap))
+  }
+  
+  // Put back the original of an item whose translation turned out to be misaligned, keeping it claimed for the retry
+  private resetItem(item: TranslationItem): void {
+    if (item.attribute) {
+      item.element.setAttribute(item.attribute, item.originalHTML)
+      return
+    }
+    item.element.innerHTML = item.originalHTML
+    item.element.removeAttribute('data-translated')
+  }
+  
+  // Attribute failures release the value for a later run instead of flagging the whole element
+  private markFailed(item: TranslationItem): void {
+    if (item.attribute) {
+      item.element.removeAttribute(`data-original-attr-${item.attribute}`)
+    } else {
+      item.element.setAttribute('data-translation-failed', 'true')
+    }
+  }
+  
+  // Write the translated markup, alongside the original in bilingual mode
+  private applyHTML(item: TranslationItem, translatedHTML: string): void {
+    item.element.innerHTML = this.config.bilingual
+      ? `<span class="ai-translation-original">${item.originalHTML}</span>` +
+        `<span class="ai-translation-translated">${translatedHTML}</span>`
+      : translatedHTML
+    item.element.setAttribute('data-translated', 'true')
+    // Remove failed flag if it was set
+    item.element.removeAttribute('data-translation-failed')
+  }
+  
+  private async processSingleItem(item: TranslationItem, settings: TranslationSettings, signal?: AbortSignal): Promise<void> {
     try {
       const response = await translateText({
         text: item.placeholderText,
         targetLanguage: settings.targetLanguage,
         apiEndpoint: settings.apiEndpoint,
         apiKey: settings.apiKey,
-        model: settings.model
+        model: settings.model,
+        provider: settings.provider,
+        estimatedTokens: estimateTokens(item.placeholderText),
+        signal
       })
       
+      if (response.errorCategory === 'cancelled') {
+        return
+      }
+      
       if (!response.error && response.translatedText) {
+        if (this.hasBrokenPlaceholders(item, response.translatedText)) {
+          await this.repairPlaceholders([{ item, translation: response.translatedText }], settings, signal)
+          return
+        }
+        
         // Cache the translation
-        translationCache.set(item.placeholderText, settings.targetLanguage, response.translatedText)
+        translationCache.set(item.placeholderText, settings.targetLanguage, response.translatedText, getCacheScope(settings))
         
         // Apply to element
-        const restoredHTML = placeholdersToHtml(response.translatedText, item.placeholderMap)
-        item.element.innerHTML = restoredHTML
-        item.element.setAttribute('data-translated', 'true')
-        // Remove failed flag if it was set
-        item.element.removeAttribute('data-translation-failed')
+        this.applyResult(item, response.translatedText)
       } else {
         // Mark as failed for potential retry
-        item.element.setAttribute('data-translation-failed', 'true')
-        console.error('Translation failed for element:', response.error)
+        this.markFailed(item)
+        console.error(`Translation failed for element (${response.errorCategory || 'empty response'}):`, response.error)
       }
     } catch (error) {
       console.error('Translation error:', error)
       // Mark as failed for potential retry
-      item.element.setAttribute('data-translation-failed', 'true')
+      this.markFailed(item)
     }
   }
 }
\ No newline at end of file
@@ -1,51 +1,105 @@
 // LRU Cache implementation for translation results
 
+import { PROMPT_TEMPLATE_VERSION } from './api'
+
 export interface CacheEntry {
+  sourceText: string  // Compared on every hit so a key collision can never return the wrong text
   translatedText: string
   timestamp: number
+  domain?: string  // Site the translation was made on, for per-site purging
+}
+
+// Request settings that change the translation for the same source text
+export interface CacheScope {
+  model?: string
+  apiEndpoint?: string
+}
+
+// Persistent tier behind the in-memory LRU, shared across tabs and sessions
+export interface CacheStore {
+  get(key: string): Promise<CacheEntry | null>
+  set(key: string, entry: CacheEntry): Promise<void>
+  clear(): Promise<void>
+  recordHit?(): void  // Counts a hit served from memory, which the store never sees
 }
 
 export class TranslationCache {
   private cache: Map<string, CacheEntry>
   private maxSize: number
+  private store: CacheStore | null
   
-  constructor(maxSize: number = 1000) {
+  constructor(maxSize: number = 1000, store: CacheStore | null = null) {
     this.cache = new Map()
     this.maxSize = maxSize
+    this.store = store
   }
   
-  // Generate cache key from text and target language
-  private generateKey(text: string, targetLanguage: string): string {
-    const combined = `${targetLanguage}:${text}`
-    // Simple hash function
-    let hash = 0
-    for (let i = 0; i < combined.length; i++) {
-      const char = combined.charCodeAt(i)
-      hash = ((hash << 5) - hash) + char
-      hash = hash & hash // Convert to 32-bit integer
-    }
-    return hash.toString(36)
+  // Attach the persistent tier once the runtime context is known
+  setStore(store: CacheStore | null): void {
+    this.store = store
+  }
+  
+  // Generate cache key from the text and everything that affects its translation
+  private async generateKey(text: string, targetLanguage: string, scope: CacheScope): Promise<string> {
+    const combined = JSON.stringify([
+      PROMPT_TEMPLATE_VERSION,
+      targetLanguage,
+      scope.model || '',
+      scope.apiEndpoint || '',
+      text
+    ])
+    return digest(combined)
   }
   
-  // Get cached translation
-  get(text: string, targetLanguage: string): string | null {
-    const key = this.generateKey(text, targetLanguage)
+  // Get cached translation, falling back to the persistent store on a memory miss
+  async get(text: string, targetLanguage: string, scope: CacheScope = {}): Promise<string | null> {
+    const key = await this.generateKey(text, targetLanguage, scope)
     const entry = this.cache.get(key)
     
-    if (entry) {
+    if (entry && entry.sourceText === text) {
       // Move to end (most recently used)
       this.cache.delete(key)
       this.cache.set(key, entry)
+      this.store?.recordHit?.()
       return entry.translatedText
     }
     
+    if (!this.store) {
+      return null
+    }
+    
+    try {
+      const storedEntry = await this.store.get(key)
+      if (storedEntry && storedEntry.sourceText === text) {
+        this.remember(key, storedEntry)
+        return storedEntry.translatedText
+      }
+    } catch (error) {
+      console.debug('Persistent cache lookup failed:', error)
+    }
+    
     return null
   }
   
   // Set cached translation
-  set(text: string, targetLanguage: string, translatedText: string): void {
-    const key = this.generateKey(text, targetLanguage)
+  async set(text: string, targetLanguage: string, translatedText: string, scope: CacheScope = {}): Promise<void> {
+    const key = await this.generateKey(text, targetLanguage, scope)
+    const entry = {
+      sourceText: text,
+      translatedText,
+      timestamp: Date.now(),
+      domain: globalThis.location?.hostname || undefined
+    }
     
+    this.remember(key, entry)
+    
+    // Writes to the persistent tier are best effort and never block translation
+    this.store?.set(key, entry).catch(error => {
+      console.debug('Persistent cache write failed:', error)
+    })
+  }
+  
+  private remember(key: string, entry: CacheEntry): void {
     // Remove oldest entry if at capacity
     if (this.cache.size >= this.maxSize && !this.cache.has(key)) {
       const firstKey = this.cache.keys().next().value
@@ -54,15 +108,15 @@ export class TranslationCache {
       }
     }
     
-    this.cache.set(key, {
-      translatedText,
-      timestamp: Date.now()
-    })
+    this.cache.set(key, entry)
   }
   
   // Clear cache
   clear(): void {
     this.cache.clear()
+    this.store?.clear().catch(error => {
+      console.debug('Persistent cache clear failed:', error)
+    })
   }
   
   // Get cache size
@@ -71,5 +125,31 @@ export class TranslationCache {
   }
 }
 
+// SHA-256 where available; crypto.subtle is missing in content scripts on insecure (http) pages
+async function digest(value: string): Promise<string> {
+  const subtle = globalThis.crypto?.subtle
+  if (subtle) {
+    try {
+      const hash = await subtle.digest('SHA-256', new TextEncoder().encode(value))
+      return Array.from(new Uint8Array(hash), byte => byte.toString(16).padStart(2, '0')).join('')
+    } catch {
+      // Fall through to the non-cryptographic hash
+    }
+  }
+  return fallbackHash(value)
+}
+
+// Two independent 32-bit FNV-1a style hashes; collisions are still caught by the source text check
+function fallbackHash(value: string): string {
+  let h1 = 0x811c9dc5
+  let h2 = 0x01000193 ^ value.length
+  for (let i = 0; i < value.length; i++) {
+    const char = value.charCodeAt(i)
+    h1 = Math.imul(h1 ^ char, 0x01000193)
+    h2 = Math.imul(h2 ^ char, 0x5bd1e995)
+  }
+  return 'fnv-' + (h1 >>> 0).toString(16).padStart(8, '0') + (h2 >>> 0).toString(16).padStart(8, '0')
+}
+
 // Global cache instance
 export const translationCache = new TranslationCache()
\ No newline at end of file
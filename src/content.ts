@@ -1,21 +1,95 @@
 // Content script for AI Translation Extension with Reader Mode Overlay
 
 import { isReaderable, extractArticleForOverlay } from './readability-adapter'
-import { BatchTranslator } from './batch-translator'
+import { BatchTranslator, BatchProtocol, MismatchStats } from './batch-translator'
+import {
+  getTranslatableElements,
+  getTranslatableAttributes,
+  restoreTranslatedElements,
+  toggleTranslatedElements,
+  isExcludedFromTranslation,
+  DEFAULT_TRANSLATED_ATTRIBUTES,
+  SiteSelectors,
+  TranslatableAttribute
+} from './element-translator'
+import { ViewportScheduler } from './viewport-scheduler'
+import { MutationWatcher } from './mutation-watcher'
+import { OriginalPopover } from './original-popover'
+import { SelectionCard } from './selection-card'
+import { configureApi, getEffectiveRateLimit, translateText } from './api'
+import { ProviderId } from './providers'
+import { translationCache } from './cache'
+import { RuntimeCacheStore } from './persistent-cache'
 import './overlay.css'
 
 interface TranslationSettings {
+  apiProvider?: ProviderId
   apiEndpoint: string
   apiKey: string
   model: string
   targetLanguage: string
   batchSize?: number
+  maxConcurrentBatches?: number
+  batchProtocol?: BatchProtocol
   readabilityMode?: boolean
+  streaming?: boolean
+  maxAttempts?: number
+  apiRps?: number
+  adaptiveRateLimit?: boolean
+  tokensPerMinute?: number
+  viewportTranslation?: boolean
+  liveTranslation?: boolean
+  displayMode?: DisplayMode
+  translatedAttributes?: string[]
+  siteSelectors?: Record<string, SiteSelectors>  // Keyed by domain
 }
 
+// Back the in-memory cache with the background's persistent store
+translationCache.setStore(new RuntimeCacheStore())
+
+// Reader overlay for articles, or in place on the live page for everything else
+type TranslationMode = 'overlay' | 'inplace'
+
+// Translation only, or bilingual with the translation under or (in the overlay) beside the original
+type DisplayMode = 'translation' | 'interleaved' | 'side-by-side'
+
+// The overlay and notices are ours, so live mode must not translate them
+const EXTENSION_UI_SELECTOR = '.ai-translation-overlay, .ai-translation-notice, .ai-translation-popover, .ai-translation-selection-card'
+
+// Settings read from storage for every translation request
+const SETTINGS_KEYS = [
+  'apiProvider',
+  'apiEndpoint',
+  'apiKey',
+  'model',
+  'targetLanguage',
+  'batchSize',
+  'maxConcurrentBatches',
+  'batchProtocol',
+  'readabilityMode',
+  'streaming',
+  'maxAttempts',
+  'apiRps',
+  'adaptiveRateLimit',
+  'tokensPerMinute',
+  'viewportTranslation',
+  'liveTranslation',
+  'displayMode',
+  'translatedAttributes',
+  'siteSelectors'
+]
+
+// Shows the original of a translated paragraph on hover or long press
+const originalPopover = new OriginalPopover()
+
+// Shows the translation of selected text next to the selection
+const selectionCard = new SelectionCard()
+
 // Overlay state
 let overlayElement: HTMLElement | null = null
 let isTranslating = false
+// Cancels the running translation when the overlay closes or the page is restored
+let translationController: AbortController | null = null
 
 // Create reader mode overlay
 function createOverlay(): HTMLElement {
@@ -71,7 +145,13 @@ function createOverlay(): HTMLElement {
 
 // Remove overlay
 function removeOverlay() {
+  if (translationController) {
+    translationController.abort()
+    translationController = null
+  }
   if (overlayElement) {
+    // A pinned popover may belong to a paragraph in the overlay
+    originalPopover.hide()
     overlayElement.remove()
     overlayElement = null
     // Restore body scroll
@@ -109,6 +189,8 @@ async function displayArticleInOverlay(article: { content: string; title?: strin
   html += `<div class="ai-translation-overlay__content">${article.content}</div>`
   
   container.innerHTML = html
+  // Two columns need the full width; in place the page layout decides, so bilingual text is interleaved
+  overlayElement.classList.toggle('ai-translation-overlay--side-by-side', settings.displayMode === 'side-by-side')
   
   // Start translation
   updateProgress(10)
@@ -126,16 +208,14 @@ async function translateOverlayContent(settings: TranslationSettings) {
   const contentElement = overlayElement.querySelector('.ai-translation-overlay__content') as HTMLElement
   if (!contentElement) return
   
-  // Get all paragraphs and headings
+  // Get all paragraphs and headings; the site rules match the classes Readability was told to keep
+  const selectors = getSiteSelectors(settings)
   const elements = Array.from(contentElement.querySelectorAll('p, h1, h2, h3, h4, h5, h6, li, blockquote'))
-    .filter(el => el.textContent?.trim())
+    .filter(el => el.textContent?.trim() && !isExcludedFromTranslation(el, selectors))
   
   if (elements.length === 0) return
   
-  // Create batch translator with configured batch size
-  const batchTranslator = new BatchTranslator({
-    maxCharactersPerBatch: settings.batchSize || 1000
-  })
+  const batchTranslator = createBatchTranslator(settings)
   
   // Set up progress tracking
   let progressCallback = (processed: number, total: number) => {
@@ -145,28 +225,222 @@ async function translateOverlayContent(settings: TranslationSettings) {
   
   // Translate all elements in batches
   try {
-    await batchTranslator.translateElements(elements as Element[], {
-      apiEndpoint: settings.apiEndpoint,
-      apiKey: settings.apiKey,
-      model: settings.model,
-      targetLanguage: settings.targetLanguage
-    }, progressCallback)
+    await batchTranslator.translateElements(elements as Element[], getBatchSettings(settings), progressCallback, {
+      signal: translationController?.signal
+    })
   } catch (error) {
     console.error('Translation error:', error)
   }
 }
 
-// Translate page with reader mode
-async function translatePage(settings: TranslationSettings) {
+// Translators of every run on this page, so the popup can report how often batches came back misaligned
+const batchTranslators: BatchTranslator[] = []
+
+// Create batch translator with configured batch size
+function createBatchTranslator(settings: TranslationSettings): BatchTranslator {
+  const batchTranslator = new BatchTranslator({
+    maxCharactersPerBatch: settings.batchSize || 1000,
+    streaming: settings.streaming,
+    maxConcurrentBatches: settings.maxConcurrentBatches,
+    protocol: settings.batchProtocol,
+    bilingual: settings.displayMode === 'interleaved' || settings.displayMode === 'side-by-side'
+  })
+  batchTranslators.push(batchTranslator)
+  return batchTranslator
+}
+
+// Segment count mismatches summed over the runs on this page
+function getMismatchStats(): MismatchStats {
+  return batchTranslators.reduce((total, batchTranslator) => {
+    const stats = batchTranslator.getMismatchStats()
+    return {
+      batches: total.batches + stats.batches,
+      mismatches: total.mismatches + stats.mismatches,
+      bisectRequests: total.bisectRequests + stats.bisectRequests,
+      unrecovered: total.unrecovered + stats.unrecovered
+    }
+  }, { batches: 0, mismatches: 0, bisectRequests: 0, unrecovered: 0 })
+}
+
+function getBatchSettings(settings: TranslationSettings) {
+  return {
+    apiEndpoint: settings.apiEndpoint,
+    apiKey: settings.apiKey,
+    model: settings.model,
+    targetLanguage: settings.targetLanguage,
+    provider: settings.apiProvider
+  }
+}
+
+// Rules for the page's host, or for the closest parent domain that has rules
+function getSiteSelectors(settings: TranslationSettings): SiteSelectors {
+  const rules = settings.siteSelectors || {}
+  const parts = location.hostname.split('.')
+  for (let i = 0; i < Math.max(1, parts.length - 1); i++) {
+    const domain = parts.slice(i).join('.')
+    if (rules[domain]) {
+      return rules[domain]
+    }
+  }
+  return {}
+}
+
+// Class names used by the site rules, which Readability must keep for the overlay to match them
+function getSelectorClasses(selectors: SiteSelectors): string[] {
+  const source = `${selectors.include || ''} ${selectors.exclude || ''}`
+  return Array.from(source.matchAll(/\.(-?[_a-zA-Z][\w-]*)/g), match => match[1])
+}
+
+// Attributes that sit inside one of the elements, keyed by that element
+function groupByContainer(attributes: TranslatableAttribute[], elements: Element[]): Map<Element, TranslatableAttribute[]> {
+  const containers = new Set(elements)
+  const grouped = new Map<Element, TranslatableAttribute[]>()
+  for (const attribute of attributes) {
+    let container = attribute.element.parentElement
+    while (container && !containers.has(container)) {
+      container = container.parentElement
+    }
+    if (container) {
+      grouped.set(container, [...(grouped.get(container) || []), attribute])
+    }
+  }
+  return grouped
+}
+
+// Translate the live page DOM, for pages Readability cannot extract an article from
+async function translatePageInPlace(settings: TranslationSettings, signal: AbortSignal) {
+  const selectors = getSiteSelectors(settings)
+  const elements = getTranslatableElements(document.body, selectors)
+  if (elements.length === 0) {
+    showInfo('No translatable content found on this page.')
+    chrome.runtime.sendMessage({ action: 'updateBadge', status: 'error' })
+    return { status: 'no_content' }
+  }
+  
+  chrome.runtime.sendMessage({ action: 'updateBadge', status: 'translating' })
+  const batchTranslator = createBatchTranslator(settings)
+  const batchSettings = getBatchSettings(settings)
+  
+  // Attribute values (alt text, tooltips, the meta description) are short, so they are translated up front
+  const attributes = getTranslatableAttributes(
+    document.documentElement,
+    settings.translatedAttributes ?? DEFAULT_TRANSLATED_ATTRIBUTES,
+    selectors
+  )
+  
+  // Translate only what the reader scrolls to; the scheduler runs until the signal is aborted
+  const lazy = settings.viewportTranslation !== false && typeof IntersectionObserver !== 'undefined'
+  // Writing an element replaces the nodes inside it, so their attributes are translated along with it
+  const nestedAttributes = lazy ? groupByContainer(attributes, elements) : new Map<Element, TranslatableAttribute[]>()
+  const scheduler = lazy
+    ? new ViewportScheduler({
+      translate: batch => {
+        const batchAttributes = batch.flatMap(element => nestedAttributes.get(element) || [])
+        batch.forEach(element => nestedAttributes.delete(element))
+        return batchTranslator.translateElements(batch, batchSettings, undefined, { signal, attributes: batchAttributes })
+      },
+      onIdle: () => chrome.runtime.sendMessage({ action: 'updateBadge', status: 'completed' }),
+      signal
+    })
+    : null
+  
+  // Live mode keeps translating content the page adds later, until the signal is aborted
+  if (settings.liveTranslation) {
+    const watcher = new MutationWatcher({
+      onElements: added => {
+        if (scheduler) {
+          scheduler.observe(added)
+          return
+        }
+        batchTranslator.translateElements(added, batchSettings, undefined, { signal }).catch(error => {
+          console.error('Live translation error:', error)
+        })
+      },
+      ignoreSelector: EXTENSION_UI_SELECTOR,
+      selectors,
+      signal
+    })
+    watcher.observe(document.body)
+  }
+  
+  if (scheduler) {
+    const nested = new Set(Array.from(nestedAttributes.values()).flat())
+    const standalone = attributes.filter(attribute => !nested.has(attribute))
+    if (standalone.length > 0) {
+      batchTranslator.translateElements([], batchSettings, undefined, { signal, attributes: standalone }).catch(error => {
+        console.error('Attribute translation error:', error)
+      })
+    }
+    scheduler.observe(elements)
+    return { status: 'scheduled' }
+  }
+  
+  await batchTranslator.translateElements(elements, batchSettings, undefined, { signal, attributes })
+  
+  if (signal.aborted) {
+    chrome.runtime.sendMessage({ action: 'updateBadge', status: 'cancelled' })
+    return { status: 'cancelled' }
+  }
+  
+  chrome.runtime.sendMessage({ action: 'updateBadge', status: 'completed' })
+  return { status: 'completed' }
+}
+
+// Requests are made from this content script, so its API module needs the user's settings
+function configureApiFromSettings(settings: TranslationSettings) {
+  configureApi({
+    rps: settings.apiRps,
+    adaptiveRateLimit: settings.adaptiveRateLimit,
+    tpm: settings.tokensPerMinute,
+    retry: { maxAttempts: settings.maxAttempts }
+  })
+}
+
+// Translate the selected text (or the text the context menu passed) into a card next to the selection
+async function translateSelection(settings: TranslationSettings, selectedText?: string) {
+  const selection = window.getSelection()
+  const range = selection && selection.rangeCount > 0 && !selection.isCollapsed
+    ? selection.getRangeAt(0).cloneRange()
+    : null
+  const text = (selectedText || selection?.toString() || '').trim()
+  if (!text) return { status: 'no_selection' }
+  
+  configureApiFromSettings(settings)
+  selectionCard.show(range)
+  
+  const response = await translateText({ text, ...getBatchSettings(settings) })
+  if (response.error || !response.translatedText) {
+    const message = response.error || 'No translation received'
+    selectionCard.setError(message)
+    return { status: 'error', message }
+  }
+  
+  selectionCard.setTranslation(response.translatedText.trim())
+  return { status: 'completed' }
+}
+
+// Translate page with reader mode or in place
+async function translatePage(settings: TranslationSettings, mode: TranslationMode = 'overlay') {
   if (isTranslating) return { status: 'already_translating' }
   
   isTranslating = true
+  originalPopover.attach(document)
+  // A new run replaces any viewport translation still scheduled by the previous one
+  translationController?.abort()
+  const controller = new AbortController()
+  translationController = controller
+  
+  configureApiFromSettings(settings)
   
   try {
+    if (mode === 'inplace') {
+      return await translatePageInPlace(settings, controller.signal)
+    }
+    
     // Check if reader mode is enabled
     if (settings.readabilityMode && isReaderable(document)) {
       // Extract article content
-      const article = extractArticleForOverlay(document)
+      const article = extractArticleForOverlay(document, getSelectorClasses(getSiteSelectors(settings)))
       
       if (article) {
         // Create and show overlay
@@ -179,13 +453,18 @@ async function translatePage(settings: TranslationSettings) {
         // Display and translate article
         await displayArticleInOverlay(article, settings)
         
+        if (controller.signal.aborted) {
+          chrome.runtime.sendMessage({ action: 'updateBadge', status: 'cancelled' })
+          return { status: 'cancelled' }
+        }
+        
         chrome.runtime.sendMessage({ action: 'updateBadge', status: 'completed' })
         return { status: 'completed' }
       }
     }
     
     // Fallback: Show message that page is not suitable for reader mode
-    showInfo('This page is not suitable for Reader Mode. Please try a different page with article content.')
+    showInfo('This page is not suitable for Reader Mode. Use "Translate In Place" to translate the page directly.')
     chrome.runtime.sendMessage({ action: 'updateBadge', status: 'error' })
     return { status: 'not_readable' }
     
@@ -202,6 +481,7 @@ async function translatePage(settings: TranslationSettings) {
 // Show info message
 function showInfo(message: string) {
   const infoDiv = document.createElement('div')
+  infoDiv.className = 'ai-translation-notice'
   infoDiv.textContent = message
   infoDiv.style.cssText = `
     position: fixed;
@@ -223,6 +503,7 @@ function showInfo(message: string) {
 // Show error message
 function showError(message: string) {
   const errorDiv = document.createElement('div')
+  errorDiv.className = 'ai-translation-notice'
   errorDiv.textContent = message
   errorDiv.style.cssText = `
     position: fixed;
@@ -241,32 +522,44 @@ function showError(message: string) {
   setTimeout(() => errorDiv.remove(), 5000)
 }
 
-// Restore page (close overlay)
+// Restore page: close the overlay, stop translating and put back in-place translated content
 function restorePage() {
   removeOverlay()
+  originalPopover.detach()
+  // The root element, so translated meta descriptions in <head> are restored too
+  restoreTranslatedElements(document.documentElement)
   chrome.runtime.sendMessage({ action: 'updateBadge', status: 'restored' })
 }
 
+// Switch in-place translated content between original and translation
+function toggleOriginal() {
+  return { status: 'toggled', showingOriginal: toggleTranslatedElements(document.documentElement) }
+}
+
 // Listen for messages from popup/background
 chrome.runtime.onMessage.addListener((request, _sender, sendResponse) => {
   if (request.action === 'translate') {
     // Get settings and translate
-    chrome.storage.local.get([
-      'apiEndpoint',
-      'apiKey', 
-      'model',
-      'targetLanguage',
-      'batchSize',
-      'readabilityMode'
-    ], (settings) => {
-      translatePage(settings as TranslationSettings).then(sendResponse)
+    chrome.storage.local.get(SETTINGS_KEYS, (settings) => {
+      translatePage(settings as TranslationSettings, request.mode).then(sendResponse)
     })
     return true // Keep message channel open for async response
+  } else if (request.action === 'translateSelection') {
+    chrome.storage.local.get(SETTINGS_KEYS, (settings) => {
+      translateSelection(settings as TranslationSettings, request.text).then(sendResponse)
+    })
+    return true
   } else if (request.action === 'restore') {
     restorePage()
     sendResponse({ status: 'restored' })
+  } else if (request.action === 'toggleOriginal') {
+    sendResponse(toggleOriginal())
+  } else if (request.action === 'getRateLimit') {
+    sendResponse({ effectiveRps: getEffectiveRateLimit() })
+  } else if (request.action === 'getMismatchStats') {
+    sendResponse(getMismatchStats())
   }
 })
 
 // Export functions for testing
-export { translatePage, restorePage }
\ No newline at end of file
+export { translatePage, restorePage, toggleOriginal, translateSelection }
\ No newline at end of file
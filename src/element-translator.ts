@@ -1,5 +1,6 @@
 // Element-based translation approach (simplified)
 import { translateText } from './api'
+import { ProviderId } from './providers'
 import { translationCache } from './cache'
 import { htmlToPlaceholders, placeholdersToHtml } from './utils'
 
@@ -8,6 +9,7 @@ interface TranslationSettings {
   apiKey: string
   model: string
   targetLanguage: string
+  provider?: ProviderId
 }
 
 // Translate an element with HTML content
@@ -32,7 +34,10 @@ export async function translateElement(element: Element, settings: TranslationSe
   const { text: placeholderText, map } = htmlToPlaceholders(originalHTML)
   
   // Check cache
-  const cachedTranslation = translationCache.get(placeholderText, settings.targetLanguage)
+  const cachedTranslation = await translationCache.get(placeholderText, settings.targetLanguage, {
+    model: settings.model,
+    apiEndpoint: settings.apiEndpoint
+  })
   
   if (cachedTranslation) {
     const restoredHTML = placeholdersToHtml(cachedTranslation, map)
@@ -48,12 +53,16 @@ export async function translateElement(element: Element, settings: TranslationSe
       targetLanguage: settings.targetLanguage,
       apiEndpoint: settings.apiEndpoint,
       apiKey: settings.apiKey,
-      model: settings.model
+      model: settings.model,
+      provider: settings.provider
     })
     
     if (!response.error) {
       // Cache the translation
-      translationCache.set(placeholderText, settings.targetLanguage, response.translatedText)
+      translationCache.set(placeholderText, settings.targetLanguage, response.translatedText, {
+        model: settings.model,
+        apiEndpoint: settings.apiEndpoint
+      })
       
       // Restore HTML and apply
       const restoredHTML = placeholdersToHtml(response.translatedText, map)
@@ -65,9 +74,39 @@ export async function translateElement(element: Element, settings: TranslationSe
   }
 }
 
+// Per-site CSS selectors from the settings; include limits translation to matching subtrees
+export interface SiteSelectors {
+  include?: string
+  exclude?: string
+}
+
+// Skip content the page marks as not translatable (translate="no", Google's .notranslate) or the site rules exclude
+export function isExcludedFromTranslation(element: Element, selectors: SiteSelectors = {}): boolean {
+  // translate="yes" on a closer ancestor overrides translate="no" further up
+  if (element.closest('[translate]')?.getAttribute('translate')?.toLowerCase() === 'no') {
+    return true
+  }
+  if (element.closest('.notranslate')) {
+    return true
+  }
+  if (selectors.exclude && matchesSelector(element, selectors.exclude, false)) {
+    return true
+  }
+  return !!selectors.include && !matchesSelector(element, selectors.include, true)
+}
+
+// closest() throws on invalid selectors; fall back instead of stopping the whole translation
+function matchesSelector(element: Element, selector: string, fallback: boolean): boolean {
+  try {
+    return element.closest(selector) !== null
+  } catch {
+    return fallback
+  }
+}
+
 // Simplified approach: Get all leaf elements with text
 // Now accepts optional root element for scoped translation
-export function getTranslatableElements(root: Element = document.body): Element[] {
+export function getTranslatableElements(root: Element = document.body, selectors: SiteSelectors = {}): Element[] {
   const elements: Element[] = []
   const processed = new Set<Element>()
   
@@ -81,7 +120,7 @@ export function getTranslatableElements(root: Element = document.body): Element[
     }
     
     // Skip certain elements
-    if (shouldSkipElement(element)) {
+    if (shouldSkipElement(element) || isExcludedFromTranslation(element, selectors)) {
       return
     }
     
@@ -121,6 +160,120 @@ export function getTranslatableElements(root: Element = document.body): Element[
   return elements
 }
 
+// Attributes translated in place; `content` is only translated on description meta tags
+export const DEFAULT_TRANSLATED_ATTRIBUTES = ['alt', 'title', 'aria-label', 'placeholder', 'content']
+
+const DESCRIPTION_META_SELECTOR = 'meta[name="description"], meta[property="og:description"], meta[name="twitter:description"]'
+
+export interface TranslatableAttribute {
+  element: Element
+  name: string
+}
+
+// Find attribute values worth translating, e.g. image alt text, tooltips and input placeholders
+export function getTranslatableAttributes(
+  root: Element = document.documentElement,
+  names: string[] = DEFAULT_TRANSLATED_ATTRIBUTES,
+  selectors: SiteSelectors = {}
+): TranslatableAttribute[] {
+  const attributes: TranslatableAttribute[] = []
+  
+  for (const name of names) {
+    // Names come from user settings and end up in a selector
+    if (!/^[a-z][a-z0-9-]*$/.test(name)) continue
+    
+    const selector = name === 'content' ? DESCRIPTION_META_SELECTOR : `[${name}]`
+    root.querySelectorAll(selector).forEach(element => {
+      const value = element.getAttribute(name)
+      // Skip values without any letters, such as numbers and symbols
+      if (!value || !/\p{L}/u.test(value) || element.hasAttribute(`data-original-attr-${name}`)) {
+        return
+      }
+      // Site include rules target body content, so they do not apply to the meta description
+      if (element.closest('script, style') || isExcludedFromTranslation(element, name === 'content' ? { exclude: selectors.exclude } : selectors)) {
+        return
+      }
+      attributes.push({ element, name })
+    })
+  }
+  
+  return attributes
+}
+
+// Attributes that record translation state on an element
+const TRANSLATION_ATTRIBUTES = ['data-original-html', 'data-translated', 'data-translated-html', 'data-translation-failed']
+
+// Put back the original markup of every in-place translated element and clear its translation state
+export function restoreTranslatedElements(root: Element = document.body): number {
+  let restored = 0
+  
+  root.querySelectorAll('[data-original-html], [data-translated]').forEach(element => {
+    const originalHTML = element.getAttribute('data-original-html')
+    if (originalHTML !== null) {
+      element.innerHTML = originalHTML
+      restored++
+    }
+    TRANSLATION_ATTRIBUTES.forEach(attribute => element.removeAttribute(attribute))
+  })
+  
+  // Translated attribute values have no selector of their own, so every element is checked
+  root.querySelectorAll('*').forEach(element => {
+    for (const { name, value } of getOriginalAttributes(element)) {
+      element.setAttribute(name, value)
+      element.removeAttribute(`data-original-attr-${name}`)
+      element.removeAttribute(`data-translated-attr-${name}`)
+      restored++
+    }
+  })
+  
+  return restored
+}
+
+// Original attribute values stored by the attribute translation pass
+function getOriginalAttributes(element: Element): Array<{ name: string; value: string }> {
+  return Array.from(element.attributes)
+    .filter(attribute => attribute.name.startsWith('data-original-attr-'))
+    .map(attribute => ({ name: attribute.name.slice('data-original-attr-'.length), value: attribute.value }))
+}
+
+// Swap translated elements between original and translated markup without calling the API again;
+// returns true when the page now shows the original
+export function toggleTranslatedElements(root: Element = document.body): boolean {
+  const elements = Array.from(root.querySelectorAll('[data-translated][data-original-html]'))
+  const attributeElements = Array.from(root.querySelectorAll('*'))
+    .filter(element => getOriginalAttributes(element).length > 0)
+  // data-translated-html and data-translated-attr-* hold the translation while the original is shown
+  const showOriginal = !elements.some(element => element.hasAttribute('data-translated-html')) &&
+    !attributeElements.some(element => getOriginalAttributes(element)
+      .some(({ name }) => element.hasAttribute(`data-translated-attr-${name}`)))
+  
+  for (const element of elements) {
+    const translatedHTML = element.getAttribute('data-translated-html')
+    if (showOriginal) {
+      element.setAttribute('data-translated-html', element.innerHTML)
+      element.innerHTML = element.getAttribute('data-original-html') || ''
+    } else if (translatedHTML !== null) {
+      element.innerHTML = translatedHTML
+      element.removeAttribute('data-translated-html')
+    }
+  }
+  
+  for (const element of attributeElements) {
+    for (const { name, value } of getOriginalAttributes(element)) {
+      const translatedValue = element.getAttribute(`data-translated-attr-${name}`)
+      if (showOriginal) {
+        element.setAttribute(`data-translated-attr-${name}`, element.getAttribute(name) || '')
+        element.setAttribute(name, value)
+      } else if (translatedValue !== null) {
+        element.setAttribute(name, translatedValue)
+        element.removeAttribute(`data-translated-attr-${name}`)
+      }
+    }
+  }
+  
+  return showOriginal
+}
+
 // Walk through DOM tree
 function walkDOM(node: Element, callback: (element: Element) => void): void {
   // Process children first (depth-first)
@@ -38,4 +38,12 @@ export default defineManifest({
     64: "icons/icon-64.png",
     128: "icons/icon-128.png",
   },
+  commands: {
+    "translate-selection": {
+      suggested_key: {
+        default: "Alt+Shift+T",
+      },
+      description: "Translate the selected text",
+    },
+  },
 });
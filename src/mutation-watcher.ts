@@ -0,0 +1,108 @@
+// Live translation: pick up content that single-page apps and infinite feeds add after the first pass
+
+import { getTranslatableElements, SiteSelectors } from './element-translator'
+
+export interface MutationWatcherOptions {
+  // Receives the new translatable elements found in each debounced group of mutations
+  onElements: (elements: Element[]) => void
+  signal?: AbortSignal
+  // Subtrees matching this selector (e.g. the extension's own UI) are never translated
+  ignoreSelector?: string
+  // Site include/exclude rules applied to the added content
+  selectors?: SiteSelectors
+  debounceMs?: number
+}
+
+const DEFAULT_DEBOUNCE_MS = 500
+
+// Elements we are translating or have translated; mutations inside them are our own innerHTML writes
+const TRANSLATION_STATE_SELECTOR = '[data-original-html], [data-translated]'
+
+export class MutationWatcher {
+  private observer: MutationObserver
+  private options: MutationWatcherOptions
+  private addedRoots = new Set<Element>()
+  private timer: ReturnType<typeof setTimeout> | null = null
+  private disconnected = false
+  
+  constructor(options: MutationWatcherOptions) {
+    this.options = options
+    this.observer = new MutationObserver(mutations => this.handleMutations(mutations))
+    
+    if (options.signal) {
+      if (options.signal.aborted) {
+        this.disconnect()
+      } else {
+        options.signal.addEventListener('abort', () => this.disconnect(), { once: true })
+      }
+    }
+  }
+  
+  observe(root: Element = document.body): void {
+    if (this.disconnected) return
+    
+    this.observer.observe(root, { childList: true, subtree: true })
+  }
+  
+  disconnect(): void {
+    this.disconnected = true
+    this.observer.disconnect()
+    this.addedRoots.clear()
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+  }
+  
+  private handleMutations(mutations: MutationRecord[]): void {
+    for (const mutation of mutations) {
+      for (const node of Array.from(mutation.addedNodes)) {
+        // Added text is scanned from its parent, since only elements can be translated
+        const root = node.nodeType === Node.ELEMENT_NODE ? node as Element : node.parentElement
+        if (root && !this.isIgnored(root)) {
+          this.addedRoots.add(root)
+        }
+      }
+    }
+    
+    this.scheduleFlush()
+  }
+  
+  private isIgnored(element: Element): boolean {
+    if (element.closest(TRANSLATION_STATE_SELECTOR)) {
+      return true
+    }
+    return !!this.options.ignoreSelector && !!element.closest(this.options.ignoreSelector)
+  }
+  
+  // Debounce so a burst of renders is scanned once
+  private scheduleFlush(): void {
+    if (this.timer || this.addedRoots.size === 0) return
+    
+    this.timer = setTimeout(() => {
+      this.timer = null
+      this.flush()
+    }, this.options.debounceMs ?? DEFAULT_DEBOUNCE_MS)
+  }
+  
+  private flush(): void {
+    if (this.disconnected) return
+    
+    // Skip roots that were removed again or sit inside another added root
+    const roots = Array.from(this.addedRoots).filter(root => root.isConnected)
+    this.addedRoots.clear()
+    const outermost = roots.filter(root => !roots.some(other => other !== root && other.contains(root)))
+    
+    const elements: Element[] = []
+    for (const root of outermost) {
+      // Translation may have started on a root while the timer was pending
+      if (this.isIgnored(root)) continue
+      
+      elements.push(...getTranslatableElements(root, this.options.selectors))
+    }
+    
+    if (elements.length > 0) {
+      this.options.onElements(elements)
+    }
+  }
+}
@@ -0,0 +1,260 @@
+// Popover that reveals the original text of a translated paragraph on hover or long press
+
+export interface OriginalPopoverOptions {
+  hoverDelayMs?: number
+  hideDelayMs?: number  // Time to cross the gap between a paragraph and its popover
+  longPressMs?: number
+}
+
+const DEFAULT_HOVER_DELAY_MS = 400
+const DEFAULT_HIDE_DELAY_MS = 300
+const DEFAULT_LONG_PRESS_MS = 500
+const POPOVER_GAP = 8
+
+// Translated elements; those toggled back to their original keep the translation in data-translated-html
+const TRANSLATED_SELECTOR = '[data-translated][data-original-html]:not([data-translated-html])'
+
+// Alt+O pins the popover in place, Escape closes it
+function isPinShortcut(event: KeyboardEvent): boolean {
+  return event.altKey && event.code === 'KeyO'
+}
+
+export class OriginalPopover {
+  private options: Required<OriginalPopoverOptions>
+  private doc: Document | null = null
+  private popover: HTMLElement | null = null
+  private target: Element | null = null
+  private pinned = false
+  private hoverTimer: ReturnType<typeof setTimeout> | null = null
+  private hoverTarget: Element | null = null
+  private hideTimer: ReturnType<typeof setTimeout> | null = null
+  private pressTimer: ReturnType<typeof setTimeout> | null = null
+  
+  constructor(options: OriginalPopoverOptions = {}) {
+    this.options = {
+      hoverDelayMs: options.hoverDelayMs ?? DEFAULT_HOVER_DELAY_MS,
+      hideDelayMs: options.hideDelayMs ?? DEFAULT_HIDE_DELAY_MS,
+      longPressMs: options.longPressMs ?? DEFAULT_LONG_PRESS_MS
+    }
+  }
+  
+  // Listen on the whole document, so both the overlay and in-place translations are covered
+  attach(doc: Document = document): void {
+    if (this.doc) return
+    
+    this.doc = doc
+    doc.addEventListener('mouseover', this.handleMouseOver)
+    doc.addEventListener('mouseout', this.handleMouseOut)
+    doc.addEventListener('touchstart', this.handleTouchStart, { passive: true })
+    doc.addEventListener('touchend', this.cancelLongPress)
+    doc.addEventListener('touchmove', this.cancelLongPress, { passive: true })
+    doc.addEventListener('keydown', this.handleKeyDown)
+    doc.addEventListener('scroll', this.handleScroll, true)
+  }
+  
+  detach(): void {
+    if (!this.doc) return
+    
+    this.hide()
+    this.doc.removeEventListener('mouseover', this.handleMouseOver)
+    this.doc.removeEventListener('mouseout', this.handleMouseOut)
+    this.doc.removeEventListener('touchstart', this.handleTouchStart)
+    this.doc.removeEventListener('touchend', this.cancelLongPress)
+    this.doc.removeEventListener('touchmove', this.cancelLongPress)
+    this.doc.removeEventListener('keydown', this.handleKeyDown)
+    this.doc.removeEventListener('scroll', this.handleScroll, true)
+    this.doc = null
+  }
+  
+  show(target: Element): void {
+    if (!this.doc) return
+    
+    this.hide()
+    this.target = target
+    this.popover = this.createPopover(target.getAttribute('data-original-html') || '')
+    this.doc.body.appendChild(this.popover)
+    this.position()
+  }
+  
+  hide(): void {
+    this.clearHoverTimer()
+    this.cancelLongPress()
+    this.removePopover()
+  }
+  
+  togglePin(): void {
+    if (!this.popover) return
+    
+    this.clearHideTimer()
+    this.pinned = !this.pinned
+    this.popover.classList.toggle('ai-translation-popover--pinned', this.pinned)
+    const pinButton = this.popover.querySelector('.ai-translation-popover__pin')
+    if (pinButton) {
+      pinButton.textContent = this.pinned ? 'Unpin' : 'Pin'
+    }
+  }
+  
+  // Copy the original as plain text
+  async copyOriginal(): Promise<void> {
+    const original = this.popover?.querySelector('.ai-translation-popover__content')?.textContent?.trim()
+    if (!original) return
+    
+    const copyButton = this.popover?.querySelector('.ai-translation-popover__copy')
+    try {
+      await navigator.clipboard.writeText(original)
+      if (copyButton) copyButton.textContent = 'Copied'
+    } catch (error) {
+      console.error('Failed to copy original text:', error)
+      if (copyButton) copyButton.textContent = 'Copy failed'
+    }
+  }
+  
+  private createPopover(originalHTML: string): HTMLElement {
+    const popover = this.doc!.createElement('div')
+    popover.className = 'ai-translation-popover'
+    popover.setAttribute('role', 'tooltip')
+    popover.innerHTML = `
+      <div class="ai-translation-popover__actions">
+        <span class="ai-translation-popover__label">Original</span>
+        <button type="button" class="ai-translation-popover__copy">Copy original</button>
+        <button type="button" class="ai-translation-popover__pin" title="Alt+O">Pin</button>
+      </div>
+      <div class="ai-translation-popover__content"></div>
+    `
+    popover.querySelector('.ai-translation-popover__content')!.innerHTML = originalHTML
+    popover.querySelector('.ai-translation-popover__copy')!.addEventListener('click', () => this.copyOriginal())
+    popover.querySelector('.ai-translation-popover__pin')!.addEventListener('click', () => this.togglePin())
+    return popover
+  }
+  
+  // Below the paragraph when it fits, otherwise above it
+  private position(): void {
+    if (!this.popover || !this.target) return
+    
+    const rect = this.target.getBoundingClientRect()
+    const height = this.popover.offsetHeight
+    const fitsBelow = rect.bottom + POPOVER_GAP + height <= window.innerHeight
+    const top = fitsBelow ? rect.bottom + POPOVER_GAP : Math.max(POPOVER_GAP, rect.top - POPOVER_GAP - height)
+    
+    this.popover.style.top = `${top}px`
+    this.popover.style.left = `${Math.max(POPOVER_GAP, rect.left)}px`
+  }
+  
+  private findTranslated(node: EventTarget | null): Element | null {
+    if (!(node instanceof Element)) return null
+    return node.closest(TRANSLATED_SELECTOR)
+  }
+  
+  private isInsidePopover(node: EventTarget | null): boolean {
+    return !!this.popover && node instanceof Node && this.popover.contains(node)
+  }
+  
+  private clearHoverTimer(): void {
+    if (this.hoverTimer) {
+      clearTimeout(this.hoverTimer)
+      this.hoverTimer = null
+    }
+    this.hoverTarget = null
+  }
+  
+  private clearHideTimer(): void {
+    if (this.hideTimer) {
+      clearTimeout(this.hideTimer)
+      this.hideTimer = null
+    }
+  }
+  
+  // Leaves a pending hover on another paragraph alone, so it can still open its popover
+  private removePopover(): void {
+    this.clearHideTimer()
+    this.popover?.remove()
+    this.popover = null
+    this.target = null
+    this.pinned = false
+  }
+  
+  private handleMouseOver = (event: MouseEvent): void => {
+    if (this.pinned) return
+    
+    // Coming back to the paragraph or reaching its popover cancels a pending hide
+    const target = this.findTranslated(event.target)
+    if (this.isInsidePopover(event.target) || (target && target === this.target)) {
+      this.clearHideTimer()
+      return
+    }
+    if (!target || target === this.hoverTarget) return
+    
+    this.clearHoverTimer()
+    this.hoverTarget = target
+    this.hoverTimer = setTimeout(() => {
+      this.hoverTimer = null
+      this.hoverTarget = null
+      this.show(target)
+    }, this.options.hoverDelayMs)
+  }
+  
+  private handleMouseOut = (event: MouseEvent): void => {
+    if (this.pinned) return
+    
+    // Moving within the paragraph or onto its popover keeps it open, so the actions can be reached
+    const next = event.relatedTarget
+    const current = this.target || this.hoverTarget
+    if (this.isInsidePopover(next) || (current && this.findTranslated(next) === current)) return
+    
+    this.clearHoverTimer()
+    if (!this.popover) return
+    
+    // The popover sits a gap away from the paragraph, so it only closes if the pointer does not reach it
+    this.clearHideTimer()
+    this.hideTimer = setTimeout(() => {
+      this.hideTimer = null
+      this.removePopover()
+    }, this.options.hideDelayMs)
+  }
+  
+  // Touch screens have no hover, so a long press opens the popover already pinned
+  private handleTouchStart = (event: TouchEvent): void => {
+    if (this.isInsidePopover(event.target)) return
+    
+    const target = this.findTranslated(event.target)
+    if (!target) {
+      if (this.popover) this.hide()
+      return
+    }
+    
+    this.cancelLongPress()
+    this.pressTimer = setTimeout(() => {
+      this.pressTimer = null
+      this.show(target)
+      this.togglePin()
+    }, this.options.longPressMs)
+  }
+  
+  private cancelLongPress = (): void => {
+    if (this.pressTimer) {
+      clearTimeout(this.pressTimer)
+      this.pressTimer = null
+    }
+  }
+  
+  private handleKeyDown = (event: KeyboardEvent): void => {
+    if (!this.popover) return
+    
+    if (isPinShortcut(event)) {
+      event.preventDefault()
+      this.togglePin()
+    } else if (event.key === 'Escape' && this.pinned) {
+      // Only the popover closes, not the reader overlay behind it
+      event.stopImmediatePropagation()
+      this.hide()
+    }
+  }
+  
+  private handleScroll = (): void => {
+    if (this.pinned) {
+      this.position()
+    } else if (this.popover) {
+      this.hide()
+    }
+  }
+}
@@ -0,0 +1,409 @@
+// Persistent translation cache tier: IndexedDB in the background, message proxy in content scripts
+
+import { CacheEntry, CacheStore } from './cache'
+
+const DB_NAME = 'ai-translation-cache'
+const DB_VERSION = 2
+const STORE_NAME = 'translations'
+const META_STORE_NAME = 'meta'
+const COUNTERS_KEY = 'counters'
+const LAST_ACCESS_INDEX = 'lastAccess'
+const LEGACY_TIMESTAMP_INDEX = 'timestamp'
+const HIT_FLUSH_DELAY_MS = 1000
+const DEFAULT_MAX_BYTES = 50 * 1024 * 1024 // 50 MB
+const TOP_DOMAIN_COUNT = 5
+export const CACHE_EXPORT_VERSION = 1
+
+// timestamp stays the creation time; lastAccess orders eviction
+interface StoredEntry extends CacheEntry {
+  key: string
+  bytes: number
+  lastAccess: number
+}
+
+// Lookup counters, stored so they outlive the service worker
+interface CacheCounters {
+  hits: number
+  misses: number
+}
+
+export interface CacheStats {
+  entries: number
+  bytes: number
+  hits: number
+  misses: number
+  topDomains: Array<{ domain: string; entries: number; bytes: number }>
+}
+
+export interface ExportedCacheEntry extends CacheEntry {
+  key: string
+}
+
+export interface CacheExport {
+  version: number
+  entries: ExportedCacheEntry[]
+}
+
+// Operations behind the popup's cache panel
+export interface ManagedCacheStore extends CacheStore {
+  getStats(): Promise<CacheStats>
+  purgeDomain(domain: string): Promise<number>
+  purgeOlderThan(timestamp: number): Promise<number>
+  exportEntries(): Promise<ExportedCacheEntry[]>
+  importEntries(entries: ExportedCacheEntry[]): Promise<number>
+  recordHits(count: number): Promise<void>
+}
+
+export type CacheMessage =
+  | { action: 'cacheGet'; key: string }
+  | { action: 'cacheSet'; key: string; entry: CacheEntry }
+  | { action: 'cacheClear' }
+  | { action: 'cacheStats' }
+  | { action: 'cachePurgeDomain'; domain: string }
+  | { action: 'cachePurgeAge'; olderThan: number }
+  | { action: 'cacheExport' }
+  | { action: 'cacheImport'; entries: unknown }
+  | { action: 'cacheRecordHits'; count: number }
+
+// Strings are stored as UTF-16, so two bytes per code unit of every stored string
+function estimateBytes(key: string, entry: CacheEntry): number {
+  return (key.length + entry.sourceText.length + entry.translatedText.length + (entry.domain?.length || 0)) * 2
+}
+
+// Imported files come from other people, so every field is checked before it is stored
+function isExportedCacheEntry(value: unknown): value is ExportedCacheEntry {
+  const entry = value as ExportedCacheEntry
+  return typeof entry === 'object' && entry !== null &&
+    typeof entry.key === 'string' &&
+    typeof entry.sourceText === 'string' &&
+    typeof entry.translatedText === 'string' &&
+    typeof entry.timestamp === 'number' &&
+    (entry.domain === undefined || typeof entry.domain === 'string')
+}
+
+// Copy only the entry fields, dropping storage bookkeeping such as the key and byte size
+function toCacheEntry(entry: CacheEntry): CacheEntry {
+  return {
+    sourceText: entry.sourceText,
+    translatedText: entry.translatedText,
+    timestamp: entry.timestamp,
+    domain: entry.domain
+  }
+}
+
+// Version 2 keeps the creation timestamp apart from the last access and stores the lookup counters
+function upgradeDatabase(db: IDBDatabase, transaction: IDBTransaction, oldVersion: number): void {
+  if (oldVersion < 1) {
+    db.createObjectStore(STORE_NAME, { keyPath: 'key' })
+  }
+  if (oldVersion < 2) {
+    const store = transaction.objectStore(STORE_NAME)
+    if (store.indexNames.contains(LEGACY_TIMESTAMP_INDEX)) {
+      store.deleteIndex(LEGACY_TIMESTAMP_INDEX)
+    }
+    store.createIndex(LAST_ACCESS_INDEX, 'lastAccess')
+    db.createObjectStore(META_STORE_NAME)
+    
+    // Version 1 overwrote timestamp on every read, so it is the last access of existing entries
+    const cursorRequest = store.openCursor()
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result
+      if (!cursor) return
+      const entry = cursor.value as StoredEntry
+      cursor.update({ ...entry, lastAccess: entry.lastAccess ?? entry.timestamp })
+      cursor.continue()
+    }
+  }
+}
+
+async function addToCounters(meta: IDBObjectStore, change: Partial<CacheCounters>): Promise<void> {
+  const counters = await requestToPromise<CacheCounters | undefined>(meta.get(COUNTERS_KEY))
+  await requestToPromise(meta.put({
+    hits: (counters?.hits || 0) + (change.hits || 0),
+    misses: (counters?.misses || 0) + (change.misses || 0)
+  }, COUNTERS_KEY))
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+export class IndexedDBCacheStore implements ManagedCacheStore {
+  private dbPromise: Promise<IDBDatabase> | null = null
+  private totalBytes: number | null = null
+  private totalBytesLoaded: Promise<void> | null = null
+  private maxBytes: number
+  
+  constructor(maxBytes: number = DEFAULT_MAX_BYTES) {
+    this.maxBytes = maxBytes
+  }
+  
+  async get(key: string): Promise<CacheEntry | null> {
+    const transaction = await this.transaction([STORE_NAME, META_STORE_NAME], 'readwrite')
+    const store = transaction.objectStore(STORE_NAME)
+    const stored = await requestToPromise<StoredEntry | undefined>(store.get(key))
+    await addToCounters(transaction.objectStore(META_STORE_NAME), stored ? { hits: 1 } : { misses: 1 })
+    if (!stored) {
+      return null
+    }
+    
+    // Touch the entry so eviction removes the least recently used first
+    const touched = { ...stored, lastAccess: Date.now() }
+    await requestToPromise(store.put(touched))
+    return toCacheEntry(touched)
+  }
+  
+  // Hits served by a content script's memory cache never reach get(), so they are reported here
+  async recordHits(count: number): Promise<void> {
+    const transaction = await this.transaction([META_STORE_NAME], 'readwrite')
+    await addToCounters(transaction.objectStore(META_STORE_NAME), { hits: count })
+  }
+  
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    await this.loadTotalBytes()
+    const store = await this.objectStore('readwrite')
+    const existing = await requestToPromise<StoredEntry | undefined>(store.get(key))
+    const bytes = estimateBytes(key, entry)
+    
+    await requestToPromise(store.put({ ...entry, key, bytes, lastAccess: Date.now() }))
+    // Writes run concurrently, so the change goes onto the current total rather than the one read before
+    this.totalBytes = (this.totalBytes ?? 0) + bytes - (existing?.bytes || 0)
+    
+    if (this.totalBytes > this.maxBytes) {
+      await this.evict()
+    }
+  }
+  
+  async clear(): Promise<void> {
+    const store = await this.objectStore('readwrite')
+    await requestToPromise(store.clear())
+    this.totalBytes = 0
+    this.totalBytesLoaded = Promise.resolve()
+  }
+  
+  async getStats(): Promise<CacheStats> {
+    const entries = await this.getAllEntries()
+    const meta = (await this.transaction([META_STORE_NAME], 'readonly')).objectStore(META_STORE_NAME)
+    const counters = await requestToPromise<CacheCounters | undefined>(meta.get(COUNTERS_KEY))
+    const domains = new Map<string, { domain: string; entries: number; bytes: number }>()
+    let bytes = 0
+    
+    for (const entry of entries) {
+      bytes += entry.bytes
+      const domain = entry.domain || 'unknown'
+      const stats = domains.get(domain) || { domain, entries: 0, bytes: 0 }
+      stats.entries++
+      stats.bytes += entry.bytes
+      domains.set(domain, stats)
+    }
+    
+    this.totalBytes = bytes
+    return {
+      entries: entries.length,
+      bytes,
+      hits: counters?.hits || 0,
+      misses: counters?.misses || 0,
+      topDomains: Array.from(domains.values())
+        .sort((a, b) => b.entries - a.entries)
+        .slice(0, TOP_DOMAIN_COUNT)
+    }
+  }
+  
+  purgeDomain(domain: string): Promise<number> {
+    return this.deleteWhere(entry => entry.domain === domain)
+  }
+  
+  purgeOlderThan(timestamp: number): Promise<number> {
+    return this.deleteWhere(entry => entry.timestamp < timestamp)
+  }
+  
+  async exportEntries(): Promise<ExportedCacheEntry[]> {
+    const entries = await this.getAllEntries()
+    return entries.map(entry => ({ key: entry.key, ...toCacheEntry(entry) }))
+  }
+  
+  async importEntries(entries: ExportedCacheEntry[]): Promise<number> {
+    for (const entry of entries) {
+      await this.set(entry.key, toCacheEntry(entry))
+    }
+    return entries.length
+  }
+  
+  private async getAllEntries(): Promise<StoredEntry[]> {
+    const store = await this.objectStore('readonly')
+    return requestToPromise<StoredEntry[]>(store.getAll())
+  }
+  
+  // Delete every entry matching the predicate and return how many were removed
+  private async deleteWhere(predicate: (entry: StoredEntry) => boolean): Promise<number> {
+    await this.loadTotalBytes()
+    const store = await this.objectStore('readwrite')
+    const cursorRequest = store.openCursor()
+    let removed = 0
+    let removedBytes = 0
+    
+    await new Promise<void>((resolve, reject) => {
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result
+        if (!cursor) {
+          resolve()
+          return
+        }
+        const entry = cursor.value as StoredEntry
+        if (predicate(entry)) {
+          removed++
+          removedBytes += entry.bytes
+          cursor.delete()
+        }
+        cursor.continue()
+      }
+      cursorRequest.onerror = () => reject(cursorRequest.error)
+    })
+    
+    this.totalBytes = (this.totalBytes ?? 0) - removedBytes
+    return removed
+  }
+  
+  // Delete the oldest entries until the store fits within the byte limit
+  private async evict(): Promise<void> {
+    const store = await this.objectStore('readwrite')
+    const cursorRequest = store.index(LAST_ACCESS_INDEX).openCursor()
+    
+    await new Promise<void>((resolve, reject) => {
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result
+        if (!cursor || (this.totalBytes || 0) <= this.maxBytes) {
+          resolve()
+          return
+        }
+        this.totalBytes = (this.totalBytes || 0) - (cursor.value as StoredEntry).bytes
+        cursor.delete()
+        cursor.continue()
+      }
+      cursorRequest.onerror = () => reject(cursorRequest.error)
+    })
+  }
+  
+  // The running total is recomputed once per service worker lifetime; concurrent callers share the
+  // load, whose read runs before any write queued after it
+  private loadTotalBytes(): Promise<void> {
+    if (!this.totalBytesLoaded) {
+      this.totalBytesLoaded = this.getAllEntries().then(entries => {
+        this.totalBytes = entries.reduce((sum, entry) => sum + entry.bytes, 0)
+      }, error => {
+        this.totalBytesLoaded = null
+        throw error
+      })
+    }
+    return this.totalBytesLoaded
+  }
+  
+  private async objectStore(mode: 'readonly' | 'readwrite'): Promise<IDBObjectStore> {
+    return (await this.transaction([STORE_NAME], mode)).objectStore(STORE_NAME)
+  }
+  
+  private async transaction(storeNames: string[], mode: 'readonly' | 'readwrite'): Promise<IDBTransaction> {
+    const db = await this.open()
+    return db.transaction(storeNames, mode)
+  }
+  
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = globalThis.indexedDB.open(DB_NAME, DB_VERSION)
+        request.onupgradeneeded = event => upgradeDatabase(request.result, request.transaction!, event.oldVersion)
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error)
+      })
+    }
+    return this.dbPromise
+  }
+}
+
+// Content scripts cannot share an IndexedDB across sites, so they ask the background instead
+export class RuntimeCacheStore implements CacheStore {
+  private pendingHits = 0
+  private hitFlushTimer: ReturnType<typeof setTimeout> | null = null
+  
+  async get(key: string): Promise<CacheEntry | null> {
+    const response = await chrome.runtime.sendMessage({ action: 'cacheGet', key })
+    return response?.entry || null
+  }
+  
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    await chrome.runtime.sendMessage({ action: 'cacheSet', key, entry })
+  }
+  
+  async clear(): Promise<void> {
+    await chrome.runtime.sendMessage({ action: 'cacheClear' })
+  }
+  
+  // Memory cache hits are reported together, a moment after the last one
+  recordHit(): void {
+    this.pendingHits++
+    if (this.hitFlushTimer) return
+    
+    this.hitFlushTimer = setTimeout(() => {
+      const count = this.pendingHits
+      this.pendingHits = 0
+      this.hitFlushTimer = null
+      chrome.runtime.sendMessage({ action: 'cacheRecordHits', count }).catch(error => {
+        console.debug('Cache hit report failed:', error)
+      })
+    }, HIT_FLUSH_DELAY_MS)
+  }
+}
+
+// Serve cache messages from content scripts and the popup; returns true when the message was handled
+export function handleCacheMessage(
+  request: CacheMessage,
+  store: ManagedCacheStore,
+  sendResponse: (response?: unknown) => void
+): boolean {
+  let pending: Promise<unknown>
+  
+  switch (request.action) {
+    case 'cacheGet':
+      pending = store.get(request.key).then(entry => ({ entry }))
+      break
+    case 'cacheSet':
+      pending = store.set(request.key, request.entry).then(() => ({ status: 'ok' }))
+      break
+    case 'cacheClear':
+      pending = store.clear().then(() => ({ status: 'ok' }))
+      break
+    case 'cacheStats':
+      pending = store.getStats().then(stats => ({ stats }))
+      break
+    case 'cachePurgeDomain':
+      pending = store.purgeDomain(request.domain).then(removed => ({ removed }))
+      break
+    case 'cachePurgeAge':
+      pending = store.purgeOlderThan(request.olderThan).then(removed => ({ removed }))
+      break
+    case 'cacheExport':
+      pending = store.exportEntries().then(entries => ({ version: CACHE_EXPORT_VERSION, entries }))
+      break
+    case 'cacheRecordHits':
+      pending = store.recordHits(Number(request.count) || 0).then(() => ({ status: 'ok' }))
+      break
+    case 'cacheImport': {
+      const entries = Array.isArray(request.entries) ? request.entries.filter(isExportedCacheEntry) : []
+      pending = store.importEntries(entries).then(imported => ({ imported }))
+      break
+    }
+    default:
+      return false
+  }
+  
+  pending
+    .then(sendResponse)
+    .catch(error => {
+      console.error('Persistent cache error:', error)
+      sendResponse({ error: error instanceof Error ? error.message : 'Cache error' })
+    })
+  return true
+}
@@ -1,30 +1,82 @@
 // Popup script for AI Translation Extension
 
+import { getProviderAdapter, DEFAULT_PROVIDER } from './providers'
+import { CacheExport, CacheStats } from './persistent-cache'
+import type { MismatchStats } from './batch-translator'
+import { DEFAULT_TRANSLATED_ATTRIBUTES, SiteSelectors } from './element-translator'
+
 // DOM elements
+const apiProviderSelect = document.getElementById('api-provider') as HTMLSelectElement
 const apiEndpointInput = document.getElementById('api-endpoint') as HTMLInputElement
 const apiKeyInput = document.getElementById('api-key') as HTMLInputElement
 const modelInput = document.getElementById('model') as HTMLInputElement
 const targetLanguageInput = document.getElementById('target-language') as HTMLInputElement
 const apiRpsInput = document.getElementById('api-rps') as HTMLInputElement
+const adaptiveRateLimitCheckbox = document.getElementById('adaptive-rate-limit') as HTMLInputElement
+const tokensPerMinuteInput = document.getElementById('tokens-per-minute') as HTMLInputElement
+const effectiveRpsLabel = document.getElementById('effective-rps') as HTMLElement | null
 const batchSizeInput = document.getElementById('batch-size') as HTMLInputElement
+const maxConcurrentBatchesInput = document.getElementById('max-concurrent-batches') as HTMLInputElement
+const batchProtocolSelect = document.getElementById('batch-protocol') as HTMLSelectElement
+const batchMismatchesLabel = document.getElementById('batch-mismatches') as HTMLElement | null
+const maxAttemptsInput = document.getElementById('max-attempts') as HTMLInputElement
 const readabilityModeCheckbox = document.getElementById('readability-mode') as HTMLInputElement
+const viewportTranslationCheckbox = document.getElementById('viewport-translation') as HTMLInputElement
+const liveTranslationCheckbox = document.getElementById('live-translation') as HTMLInputElement
+const displayModeSelect = document.getElementById('display-mode') as HTMLSelectElement
+const translatedAttributesInput = document.getElementById('translated-attributes') as HTMLInputElement
+const siteRulesDomainLabel = document.getElementById('site-rules-domain') as HTMLElement | null
+const siteIncludeInput = document.getElementById('site-include') as HTMLInputElement
+const siteExcludeInput = document.getElementById('site-exclude') as HTMLInputElement
+const streamingCheckbox = document.getElementById('streaming') as HTMLInputElement
 const saveSettingsButton = document.getElementById('save-settings') as HTMLButtonElement
 const translateButton = document.getElementById('translate-page') as HTMLButtonElement
+const translateInPlaceButton = document.getElementById('translate-page-inplace') as HTMLButtonElement
 const restoreButton = document.getElementById('restore-page') as HTMLButtonElement
+const toggleOriginalButton = document.getElementById('toggle-original') as HTMLButtonElement
 const statusDiv = document.getElementById('status') as HTMLDivElement
+const cacheStatsDiv = document.getElementById('cache-stats') as HTMLDivElement
+const cacheDomainInput = document.getElementById('cache-domain') as HTMLInputElement
+const purgeDomainButton = document.getElementById('purge-domain') as HTMLButtonElement
+const cacheMaxAgeInput = document.getElementById('cache-max-age') as HTMLInputElement
+const purgeAgeButton = document.getElementById('purge-age') as HTMLButtonElement
+const exportCacheButton = document.getElementById('export-cache') as HTMLButtonElement
+const importCacheButton = document.getElementById('import-cache') as HTMLButtonElement
+const importCacheFileInput = document.getElementById('import-cache-file') as HTMLInputElement
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Rules for every site, of which the inputs edit the active tab's entry
+let siteSelectors: Record<string, SiteSelectors> = {}
+let siteHostname = ''
 
 // Load saved settings
 async function loadSettings() {
   const settings = await chrome.storage.local.get([
+    'apiProvider',
     'apiEndpoint',
     'apiKey',
     'model',
     'targetLanguage',
     'apiRps',
+    'adaptiveRateLimit',
+    'tokensPerMinute',
     'batchSize',
-    'readabilityMode'
+    'maxConcurrentBatches',
+    'batchProtocol',
+    'maxAttempts',
+    'readabilityMode',
+    'viewportTranslation',
+    'liveTranslation',
+    'displayMode',
+    'translatedAttributes',
+    'siteSelectors',
+    'streaming'
   ])
   
+  apiProviderSelect.value = settings.apiProvider || DEFAULT_PROVIDER
+  updateEndpointPlaceholder()
+  
   if (settings.apiEndpoint) {
     apiEndpointInput.value = settings.apiEndpoint
   }
@@ -42,34 +94,249 @@ async function loadSettings() {
   } else {
     apiRpsInput.value = '0.9' // Default to 0.9 RPS
   }
+  if (settings.adaptiveRateLimit !== undefined) {
+    adaptiveRateLimitCheckbox.checked = settings.adaptiveRateLimit
+  } else {
+    adaptiveRateLimitCheckbox.checked = false // Default to a fixed rate
+  }
+  if (settings.tokensPerMinute !== undefined) {
+    tokensPerMinuteInput.value = settings.tokensPerMinute.toString()
+  } else {
+    tokensPerMinuteInput.value = '0' // Default to unlimited
+  }
   if (settings.batchSize !== undefined) {
     batchSizeInput.value = settings.batchSize.toString()
   } else {
     batchSizeInput.value = '1000' // Default to 1000 characters
   }
+  if (settings.maxConcurrentBatches !== undefined) {
+    maxConcurrentBatchesInput.value = settings.maxConcurrentBatches.toString()
+  } else {
+    maxConcurrentBatchesInput.value = '3' // Default to 3 parallel requests
+  }
+  batchProtocolSelect.value = settings.batchProtocol || 'delimiter'
+  if (settings.maxAttempts !== undefined) {
+    maxAttemptsInput.value = settings.maxAttempts.toString()
+  } else {
+    maxAttemptsInput.value = '3' // Default to 3 attempts
+  }
   if (settings.readabilityMode !== undefined) {
     readabilityModeCheckbox.checked = settings.readabilityMode
   } else {
     readabilityModeCheckbox.checked = true // Default to enabled
   }
+  if (settings.viewportTranslation !== undefined) {
+    viewportTranslationCheckbox.checked = settings.viewportTranslation
+  } else {
+    viewportTranslationCheckbox.checked = true // Default to enabled
+  }
+  if (settings.liveTranslation !== undefined) {
+    liveTranslationCheckbox.checked = settings.liveTranslation
+  } else {
+    liveTranslationCheckbox.checked = false // Default to disabled
+  }
+  displayModeSelect.value = settings.displayMode || 'translation'
+  translatedAttributesInput.value = (settings.translatedAttributes || DEFAULT_TRANSLATED_ATTRIBUTES).join(', ')
+  if (settings.streaming !== undefined) {
+    streamingCheckbox.checked = settings.streaming
+  } else {
+    streamingCheckbox.checked = false // Default to disabled
+  }
+  
+  siteSelectors = settings.siteSelectors || {}
+  siteHostname = await getActiveHostname()
+  if (siteHostname) {
+    if (siteRulesDomainLabel) siteRulesDomainLabel.textContent = siteHostname
+    siteIncludeInput.value = siteSelectors[siteHostname]?.include || ''
+    siteExcludeInput.value = siteSelectors[siteHostname]?.exclude || ''
+  }
+}
+
+// Host of the active tab, or '' for pages without one (e.g. chrome:// URLs)
+async function getActiveHostname(): Promise<string> {
+  try {
+    const [tab] = await chrome.tabs.query({ active: true, currentWindow: true })
+    return tab?.url ? new URL(tab.url).hostname : ''
+  } catch {
+    return ''
+  }
+}
+
+// Show the selected provider's default endpoint as a hint
+function updateEndpointPlaceholder() {
+  apiEndpointInput.placeholder = getProviderAdapter(apiProviderSelect.value).defaultEndpoint
 }
 
 // Save settings
 async function saveSettings() {
+  const provider = getProviderAdapter(apiProviderSelect.value || DEFAULT_PROVIDER)
   const settings = {
-    apiEndpoint: apiEndpointInput.value || 'https://api.openai.com/v1/chat/completions',
+    apiProvider: provider.id,
+    apiEndpoint: apiEndpointInput.value || provider.defaultEndpoint,
     apiKey: apiKeyInput.value,
     model: modelInput.value || 'gpt-4.1-nano',
     targetLanguage: targetLanguageInput.value || 'Japanese',
     apiRps: parseFloat(apiRpsInput.value) || 0.9,
+    adaptiveRateLimit: adaptiveRateLimitCheckbox.checked,
+    tokensPerMinute: parseInt(tokensPerMinuteInput.value) || 0,
     batchSize: parseInt(batchSizeInput.value) || 1000,
-    readabilityMode: readabilityModeCheckbox.checked
+    maxConcurrentBatches: parseInt(maxConcurrentBatchesInput.value) || 3,
+    batchProtocol: batchProtocolSelect.value || 'delimiter',
+    maxAttempts: parseInt(maxAttemptsInput.value) || 3,
+    readabilityMode: readabilityModeCheckbox.checked,
+    viewportTranslation: viewportTranslationCheckbox.checked,
+    liveTranslation: liveTranslationCheckbox.checked,
+    displayMode: displayModeSelect.value || 'translation',
+    translatedAttributes: parseAttributeList(translatedAttributesInput.value),
+    siteSelectors: getUpdatedSiteSelectors(),
+    streaming: streamingCheckbox.checked
   }
   
   await chrome.storage.local.set(settings)
   showStatus('Settings saved successfully', 'success')
 }
 
+// Show the rate the active tab is currently using, which adaptive mode adjusts
+async function loadEffectiveRateLimit() {
+  if (!effectiveRpsLabel) return
+  
+  try {
+    const [tab] = await chrome.tabs.query({ active: true, currentWindow: true })
+    if (!tab?.id) return
+    
+    const response = await chrome.tabs.sendMessage(tab.id, { action: 'getRateLimit' })
+    if (response?.effectiveRps) {
+      effectiveRpsLabel.textContent = `Current rate on this page: ${response.effectiveRps.toFixed(2)} requests/second`
+      effectiveRpsLabel.style.display = 'block'
+    }
+  } catch {
+    // No content script on this page (e.g. chrome:// URLs) or nothing translated yet
+  }
+}
+
+// Show how often batches on the active tab came back with the wrong number of segments
+async function loadMismatchStats() {
+  if (!batchMismatchesLabel) return
+  
+  try {
+    const [tab] = await chrome.tabs.query({ active: true, currentWindow: true })
+    if (!tab?.id) return
+    
+    const stats: MismatchStats | undefined = await chrome.tabs.sendMessage(tab.id, { action: 'getMismatchStats' })
+    if (stats?.batches) {
+      batchMismatchesLabel.textContent = `Misaligned responses on this page: ${stats.mismatches} of ${stats.batches} batches ` +
+        `(${stats.bisectRequests} extra requests, ${stats.unrecovered} paragraphs failed)`
+      batchMismatchesLabel.style.display = 'block'
+    }
+  } catch {
+    // No content script on this page (e.g. chrome:// URLs) or nothing translated yet
+  }
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+// Show what the persistent cache in the background holds
+async function loadCacheStats() {
+  try {
+    const response = await chrome.runtime.sendMessage({ action: 'cacheStats' })
+    const stats: CacheStats | undefined = response?.stats
+    if (!stats) return
+    
+    const lookups = stats.hits + stats.misses
+    const hitRate = lookups > 0 ? `${Math.round(stats.hits / lookups * 100)}%` : 'n/a'
+    const lines = [
+      `${stats.entries} entries, ${formatBytes(stats.bytes)}, hit rate ${hitRate}`,
+      ...stats.topDomains.map(domain => `${domain.domain}: ${domain.entries} entries (${formatBytes(domain.bytes)})`)
+    ]
+    cacheStatsDiv.textContent = lines.join('\n')
+  } catch {
+    cacheStatsDiv.textContent = 'Cache statistics are unavailable'
+  }
+}
+
+async function purgeCacheDomain() {
+  const domain = cacheDomainInput.value.trim()
+  if (!domain) {
+    showStatus('Enter a site to purge', 'error')
+    return
+  }
+  
+  const response = await chrome.runtime.sendMessage({ action: 'cachePurgeDomain', domain })
+  showStatus(`Removed ${response?.removed || 0} cached translations`, 'success')
+  await loadCacheStats()
+}
+
+async function purgeCacheByAge() {
+  const days = parseFloat(cacheMaxAgeInput.value)
+  if (isNaN(days) || days < 0) {
+    showStatus('Enter an age in days', 'error')
+    return
+  }
+  
+  const olderThan = Date.now() - days * DAY_MS
+  const response = await chrome.runtime.sendMessage({ action: 'cachePurgeAge', olderThan })
+  showStatus(`Removed ${response?.removed || 0} cached translations`, 'success')
+  await loadCacheStats()
+}
+
+// Download the cache as JSON so it can be shared as a pre-warmed cache
+async function exportCache() {
+  const data: CacheExport = await chrome.runtime.sendMessage({ action: 'cacheExport' })
+  const blob = new Blob([JSON.stringify(data)], { type: 'application/json' })
+  const url = URL.createObjectURL(blob)
+  
+  const link = document.createElement('a')
+  link.href = url
+  link.download = 'translation-cache.json'
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+async function importCache() {
+  const file = importCacheFileInput.files?.[0]
+  if (!file) return
+  
+  try {
+    const data = JSON.parse(await file.text())
+    // Accept both the export format and a bare array of entries
+    const entries = Array.isArray(data) ? data : data?.entries
+    const response = await chrome.runtime.sendMessage({ action: 'cacheImport', entries })
+    showStatus(`Imported ${response?.imported || 0} cached translations`, 'success')
+    await loadCacheStats()
+  } catch {
+    showStatus('Could not import the cache file', 'error')
+  } finally {
+    importCacheFileInput.value = ''
+  }
+}
+
+// Merge the inputs into the active site's entry; clearing both removes the entry
+function getUpdatedSiteSelectors(): Record<string, SiteSelectors> {
+  if (!siteHostname) return siteSelectors
+  
+  const include = siteIncludeInput.value.trim()
+  const exclude = siteExcludeInput.value.trim()
+  const updated = { ...siteSelectors }
+  if (include || exclude) {
+    updated[siteHostname] = { ...(include && { include }), ...(exclude && { exclude }) }
+  } else {
+    delete updated[siteHostname]
+  }
+  return updated
+}
+
+// Comma or space separated attribute names; an empty list turns attribute translation off
+function parseAttributeList(value: string): string[] {
+  return value
+    .split(/[\s,]+/)
+    .map(name => name.trim().toLowerCase())
+    .filter(name => /^[a-z][a-z0-9-]*$/.test(name))
+}
+
 // Show status message
 function showStatus(message: string, type: 'success' | 'error' | 'info') {
   statusDiv.textContent = message
@@ -91,6 +358,17 @@ async function handleTranslate() {
   }
 }
 
+// Translate the live page instead of opening the reader overlay
+async function handleTranslateInPlace() {
+  const [tab] = await chrome.tabs.query({ active: true, currentWindow: true })
+  
+  if (tab.id) {
+    chrome.tabs.sendMessage(tab.id, { action: 'translate', mode: 'inplace' })
+    showStatus('Translation started...', 'info')
+    window.close()
+  }
+}
+
 // Handle restore button click
 async function handleRestore() {
   const [tab] = await chrome.tabs.query({ active: true, currentWindow: true })
@@ -102,10 +380,28 @@ async function handleRestore() {
   }
 }
 
+// Swap in-place translations with the original text, without new API requests
+async function handleToggleOriginal() {
+  const [tab] = await chrome.tabs.query({ active: true, currentWindow: true })
+  
+  if (tab.id) {
+    chrome.tabs.sendMessage(tab.id, { action: 'toggleOriginal' })
+    window.close()
+  }
+}
+
 // Event listeners
+apiProviderSelect.addEventListener('change', updateEndpointPlaceholder)
 saveSettingsButton.addEventListener('click', saveSettings)
 translateButton.addEventListener('click', handleTranslate)
+translateInPlaceButton.addEventListener('click', handleTranslateInPlace)
 restoreButton.addEventListener('click', handleRestore)
+toggleOriginalButton.addEventListener('click', handleToggleOriginal)
+purgeDomainButton.addEventListener('click', purgeCacheDomain)
+purgeAgeButton.addEventListener('click', purgeCacheByAge)
+exportCacheButton.addEventListener('click', exportCache)
+importCacheButton.addEventListener('click', () => importCacheFileInput.click())
+importCacheFileInput.addEventListener('change', importCache)
 
 // Make click handlers available for testing
 declare global {
@@ -120,11 +416,26 @@ if (saveSettingsButton) {
 if (translateButton) {
   translateButton.click = handleTranslate
 }
+if (translateInPlaceButton) {
+  translateInPlaceButton.click = handleTranslateInPlace
+}
 if (restoreButton) {
   restoreButton.click = handleRestore
 }
+if (toggleOriginalButton) {
+  toggleOriginalButton.click = handleToggleOriginal
+}
+if (purgeDomainButton) {
+  purgeDomainButton.click = purgeCacheDomain
+}
+if (purgeAgeButton) {
+  purgeAgeButton.click = purgeCacheByAge
+}
 
 // Load settings on popup open
 loadSettings()
+loadEffectiveRateLimit()
+loadMismatchStats()
+loadCacheStats()
 
 export {}
\ No newline at end of file
@@ -0,0 +1,309 @@
+// Provider adapters for the request and response shapes of different LLM APIs
+
+export type ProviderId = 'openai' | 'anthropic' | 'gemini' | 'ollama' | 'azure'
+
+export interface ProviderRequestParams {
+  apiEndpoint: string
+  apiKey: string
+  model: string
+  systemPrompt: string
+  text: string
+  stream: boolean
+  // Ask for a JSON object matching TRANSLATION_BATCH_SCHEMA, where the API can enforce it
+  json?: boolean
+}
+
+export interface ProviderRequest {
+  url: string
+  headers: Record<string, string>
+  body: Record<string, unknown>
+}
+
+export interface ProviderAdapter {
+  id: ProviderId
+  label: string
+  defaultEndpoint: string
+  // Ollama streams newline-delimited JSON, everyone else uses server-sent events
+  streamFormat: 'sse' | 'ndjson'
+  buildRequest(params: ProviderRequestParams): ProviderRequest
+  parseResponse(data: unknown): string
+  // Extract the text delta from a single streamed event, or '' if it carries none
+  parseStreamEvent(data: unknown): string
+}
+
+const TEMPERATURE = 0.3
+const MAX_TOKENS = 4000
+
+// Response shape of the JSON batch protocol: one {id, text} object per input segment
+export const TRANSLATION_BATCH_SCHEMA = {
+  type: 'object',
+  properties: {
+    translations: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          text: { type: 'string' }
+        },
+        required: ['id', 'text'],
+        additionalProperties: false
+      }
+    }
+  },
+  required: ['translations'],
+  additionalProperties: false
+}
+
+// Gemini takes an OpenAPI-style schema without additionalProperties
+const GEMINI_BATCH_SCHEMA = {
+  type: 'OBJECT',
+  properties: {
+    translations: {
+      type: 'ARRAY',
+      items: {
+        type: 'OBJECT',
+        properties: {
+          id: { type: 'STRING' },
+          text: { type: 'STRING' }
+        },
+        required: ['id', 'text']
+      }
+    }
+  },
+  required: ['translations']
+}
+
+interface ChatCompletionResponse {
+  choices: Array<{ message: { content: string } }>
+}
+
+interface ChatCompletionChunk {
+  choices?: Array<{ delta?: { content?: string } }>
+}
+
+interface AnthropicResponse {
+  content: Array<{ type: string; text?: string }>
+}
+
+interface AnthropicStreamEvent {
+  type: string
+  delta?: { type?: string; text?: string }
+}
+
+interface GeminiResponse {
+  candidates?: Array<{ content?: { parts?: Array<{ text?: string }> } }>
+}
+
+interface OllamaChatResponse {
+  message?: { content?: string }
+}
+
+// Substitute the model (or Azure deployment) name into templated endpoint URLs
+function resolveEndpoint(apiEndpoint: string, model: string): string {
+  return apiEndpoint.replace(/\{(model|deployment)\}/g, encodeURIComponent(model))
+}
+
+function parseChatCompletion(data: unknown): string {
+  return (data as ChatCompletionResponse).choices[0].message.content
+}
+
+function parseChatCompletionChunk(data: unknown): string {
+  return (data as ChatCompletionChunk).choices?.[0]?.delta?.content || ''
+}
+
+function chatMessages(systemPrompt: string, text: string) {
+  return [
+    { role: 'system', content: systemPrompt },
+    { role: 'user', content: text }
+  ]
+}
+
+const openaiAdapter: ProviderAdapter = {
+  id: 'openai',
+  label: 'OpenAI compatible',
+  defaultEndpoint: 'https://api.openai.com/v1/chat/completions',
+  streamFormat: 'sse',
+  buildRequest: ({ apiEndpoint, apiKey, model, systemPrompt, text, stream, json }) => ({
+    url: apiEndpoint,
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${apiKey}`
+    },
+    body: {
+      model,
+      messages: chatMessages(systemPrompt, text),
+      temperature: TEMPERATURE,
+      max_tokens: MAX_TOKENS,
+      ...(stream ? { stream: true } : {}),
+      ...(json ? {
+        response_format: {
+          type: 'json_schema',
+          json_schema: { name: 'translations', strict: true, schema: TRANSLATION_BATCH_SCHEMA }
+        }
+      } : {})
+    }
+  }),
+  parseResponse: parseChatCompletion,
+  parseStreamEvent: parseChatCompletionChunk
+}
+
+const azureAdapter: ProviderAdapter = {
+  id: 'azure',
+  label: 'Azure OpenAI',
+  defaultEndpoint: 'https://{resource}.openai.azure.com/openai/deployments/{deployment}/chat/completions?api-version=2024-06-01',
+  streamFormat: 'sse',
+  buildRequest: ({ apiEndpoint, apiKey, model, systemPrompt, text, stream, json }) => ({
+    // The deployment in the URL selects the model, so it is not sent in the body
+    url: resolveEndpoint(apiEndpoint, model),
+    headers: {
+      'Content-Type': 'application/json',
+      'api-key': apiKey
+    },
+    body: {
+      messages: chatMessages(systemPrompt, text),
+      temperature: TEMPERATURE,
+      max_tokens: MAX_TOKENS,
+      ...(stream ? { stream: true } : {}),
+      // JSON schemas need a newer api-version than the default endpoint uses, JSON mode does not
+      ...(json ? { response_format: { type: 'json_object' } } : {})
+    }
+  }),
+  parseResponse: parseChatCompletion,
+  parseStreamEvent: parseChatCompletionChunk
+}
+
+const anthropicAdapter: ProviderAdapter = {
+  id: 'anthropic',
+  label: 'Anthropic Messages',
+  defaultEndpoint: 'https://api.anthropic.com/v1/messages',
+  streamFormat: 'sse',
+  // The Messages API has no JSON mode, so the JSON batch protocol relies on the prompt alone
+  buildRequest: ({ apiEndpoint, apiKey, model, systemPrompt, text, stream }) => ({
+    url: apiEndpoint,
+    headers: {
+      'Content-Type': 'application/json',
+      'x-api-key': apiKey,
+      'anthropic-version': '2023-06-01',
+      // Required for requests made from a browser context
+      'anthropic-dangerous-direct-browser-access': 'true'
+    },
+    body: {
+      model,
+      system: systemPrompt,
+      messages: [{ role: 'user', content: text }],
+      temperature: TEMPERATURE,
+      max_tokens: MAX_TOKENS,
+      ...(stream ? { stream: true } : {})
+    }
+  }),
+  parseResponse: (data) => (data as AnthropicResponse).content
+    .filter(block => block.type === 'text')
+    .map(block => block.text || '')
+    .join(''),
+  parseStreamEvent: (data) => {
+    const event = data as AnthropicStreamEvent
+    if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+      return event.delta.text || ''
+    }
+    return ''
+  }
+}
+
+function parseGeminiText(data: unknown): string {
+  const parts = (data as GeminiResponse).candidates?.[0]?.content?.parts || []
+  return parts.map(part => part.text || '').join('')
+}
+
+const geminiAdapter: ProviderAdapter = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  defaultEndpoint: 'https://generativelanguage.googleapis.com/v1beta/models/{model}:generateContent',
+  streamFormat: 'sse',
+  buildRequest: ({ apiEndpoint, apiKey, model, systemPrompt, text, stream, json }) => {
+    let url = resolveEndpoint(apiEndpoint, model)
+    if (stream) {
+      url = url.replace(':generateContent', ':streamGenerateContent')
+      url += (url.includes('?') ? '&' : '?') + 'alt=sse'
+    }
+
+    return {
+      url,
+      headers: {
+        'Content-Type': 'application/json',
+        'x-goog-api-key': apiKey
+      },
+      body: {
+        systemInstruction: { parts: [{ text: systemPrompt }] },
+        contents: [{ role: 'user', parts: [{ text }] }],
+        generationConfig: {
+          temperature: TEMPERATURE,
+          maxOutputTokens: MAX_TOKENS,
+          ...(json ? { responseMimeType: 'application/json', responseSchema: GEMINI_BATCH_SCHEMA } : {})
+        }
+      }
+    }
+  },
+  parseResponse: (data) => {
+    const text = parseGeminiText(data)
+    if (!text) {
+      throw new Error('Gemini response contained no text')
+    }
+    return text
+  },
+  parseStreamEvent: parseGeminiText
+}
+
+const ollamaAdapter: ProviderAdapter = {
+  id: 'ollama',
+  label: 'Ollama',
+  defaultEndpoint: 'http://localhost:11434/api/chat',
+  streamFormat: 'ndjson',
+  buildRequest: ({ apiEndpoint, apiKey, model, systemPrompt, text, stream, json }) => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+    // Local Ollama needs no key, but it is commonly deployed behind an authenticating proxy
+    if (apiKey) {
+      headers['Authorization'] = `Bearer ${apiKey}`
+    }
+
+    return {
+      url: apiEndpoint,
+      headers,
+      body: {
+        model,
+        messages: chatMessages(systemPrompt, text),
+        // Ollama streams by default, so the flag is always sent explicitly
+        stream,
+        // Structured outputs take the schema itself as the format
+        ...(json ? { format: TRANSLATION_BATCH_SCHEMA } : {}),
+        options: {
+          temperature: TEMPERATURE,
+          num_predict: MAX_TOKENS
+        }
+      }
+    }
+  },
+  parseResponse: (data) => {
+    const content = (data as OllamaChatResponse).message?.content
+    if (content === undefined) {
+      throw new Error('Ollama response contained no message')
+    }
+    return content
+  },
+  parseStreamEvent: (data) => (data as OllamaChatResponse).message?.content || ''
+}
+
+export const PROVIDERS: ProviderAdapter[] = [
+  openaiAdapter,
+  anthropicAdapter,
+  geminiAdapter,
+  ollamaAdapter,
+  azureAdapter
+]
+
+export const DEFAULT_PROVIDER: ProviderId = 'openai'
+
+// Look up an adapter by id, falling back to the OpenAI-compatible shape
+export function getProviderAdapter(id?: string): ProviderAdapter {
+  return PROVIDERS.find(provider => provider.id === id) || openaiAdapter
+}
@@ -1,29 +1,149 @@
+export interface RateLimiterOptions {
+  // Additive-increase / multiplicative-decrease tuning of the rate between minRps and the configured RPS
+  adaptive?: boolean;
+  minRps?: number;
+  increaseStep?: number;
+  successesBeforeIncrease?: number;
+  // Rolling tokens-per-minute budget; 0 disables it
+  tpm?: number;
+}
+
+export interface ExecuteOptions {
+  // Estimated tokens this call consumes from the TPM budget
+  cost?: number;
+  // Rejects the call with an AbortError if it is still queued when the signal fires
+  signal?: AbortSignal;
+}
+
+interface QueuedTask {
+  run: () => void;
+  cost: number;
+}
+
+const TOKEN_WINDOW_MS = 60000;
+const DEFAULT_MIN_RPS = 0.1;
+const DEFAULT_INCREASE_STEP = 0.1;
+const DEFAULT_SUCCESSES_BEFORE_INCREASE = 5;
+
 export class RateLimiter {
-  private queue: Array<() => void> = [];
+  private queue: QueuedTask[] = [];
   private lastProcessTime = 0;
   private intervalId: NodeJS.Timeout | null = null;
   private rps: number;
+  private maxRps: number;
+  private adaptive: boolean;
+  private minRps: number;
+  private increaseStep: number;
+  private successesBeforeIncrease: number;
+  private successCount = 0;
+  private lastDecreaseTime = 0;
+  private tpm: number;
+  private tokenLog: Array<{ time: number; tokens: number }> = [];
 
-  constructor(rps: number = 1) {
+  constructor(rps: number = 1, options: RateLimiterOptions = {}) {
     this.rps = rps;
+    this.maxRps = rps;
+    this.adaptive = options.adaptive || false;
+    this.minRps = options.minRps || DEFAULT_MIN_RPS;
+    this.increaseStep = options.increaseStep || DEFAULT_INCREASE_STEP;
+    this.successesBeforeIncrease = options.successesBeforeIncrease || DEFAULT_SUCCESSES_BEFORE_INCREASE;
+    this.tpm = options.tpm || 0;
   }
 
-  async execute<T>(fn: () => Promise<T>): Promise<T> {
+  async execute<T>(fn: () => Promise<T>, options: ExecuteOptions = {}): Promise<T> {
+    const { signal } = options;
+    if (signal?.aborted) {
+      throw createAbortError();
+    }
+
     return new Promise((resolve, reject) => {
-      this.queue.push(async () => {
-        try {
-          const result = await fn();
-          resolve(result);
-        } catch (error) {
-          reject(error);
+      const onAbort = () => {
+        const index = this.queue.indexOf(task);
+        if (index !== -1) {
+          this.queue.splice(index, 1);
+          reject(createAbortError());
         }
-      });
+      };
 
+      const task: QueuedTask = {
+        run: async () => {
+          signal?.removeEventListener('abort', onAbort);
+          try {
+            const result = await fn();
+            resolve(result);
+          } catch (error) {
+            reject(error);
+          }
+        },
+        cost: options.cost || 0
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.queue.push(task);
       this.processQueue();
     });
   }
 
+  updateTPM(tpm: number): void {
+    this.tpm = tpm;
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+    this.processQueue();
+  }
+
+  // Tokens spent within the rolling window
+  getTokensUsed(): number {
+    const windowStart = Date.now() - TOKEN_WINDOW_MS;
+    this.tokenLog = this.tokenLog.filter(entry => entry.time > windowStart);
+    return this.tokenLog.reduce((sum, entry) => sum + entry.tokens, 0);
+  }
+
+  // Set the configured rate; in adaptive mode this is the ceiling the effective rate recovers to
   updateRPS(rps: number): void {
+    this.maxRps = rps;
+    this.applyRPS(this.adaptive ? Math.min(this.rps, rps) : rps);
+  }
+
+  setAdaptive(adaptive: boolean): void {
+    this.adaptive = adaptive;
+    this.successCount = 0;
+    if (!adaptive) {
+      this.applyRPS(this.maxRps);
+    }
+  }
+
+  getEffectiveRPS(): number {
+    return this.rps;
+  }
+
+  // Halve the rate when the provider throttles us
+  reportThrottle(): void {
+    if (!this.adaptive) return;
+
+    this.successCount = 0;
+    // Requests already in flight may report the same throttling; only back off once per interval
+    const now = Date.now();
+    if (this.lastDecreaseTime !== 0 && now - this.lastDecreaseTime < 1000 / this.rps) {
+      return;
+    }
+    this.lastDecreaseTime = now;
+    this.applyRPS(Math.max(this.minRps, this.rps / 2));
+  }
+
+  // Slowly raise the rate again after a run of successful requests
+  reportSuccess(): void {
+    if (!this.adaptive || this.rps >= this.maxRps) return;
+
+    this.successCount++;
+    if (this.successCount >= this.successesBeforeIncrease) {
+      this.successCount = 0;
+      this.applyRPS(Math.min(this.maxRps, this.rps + this.increaseStep));
+    }
+  }
+
+  private applyRPS(rps: number): void {
     this.rps = rps;
     if (this.intervalId) {
       clearInterval(this.intervalId);
@@ -45,24 +165,10 @@ export class RateLimiter {
       const intervalMs = 1000 / this.rps;
       
       // Process first item immediately if enough time has passed
-      const now = Date.now();
-      if (this.lastProcessTime === 0 || now - this.lastProcessTime >= intervalMs) {
-        const task = this.queue.shift();
-        if (task) {
-          this.lastProcessTime = now;
-          task();
-        }
-      }
+      this.dispatchNext(intervalMs);
       
       this.intervalId = setInterval(() => {
-        const now = Date.now();
-        if (now - this.lastProcessTime >= intervalMs) {
-          const task = this.queue.shift();
-          if (task) {
-            this.lastProcessTime = now;
-            task();
-          }
-        }
+        this.dispatchNext(intervalMs);
 
         if (this.queue.length === 0 && this.intervalId) {
           clearInterval(this.intervalId);
@@ -72,6 +178,40 @@ export class RateLimiter {
     }
   }
 
+  private dispatchNext(intervalMs: number): void {
+    const now = Date.now();
+    if (this.lastProcessTime !== 0 && !this.hasIntervalElapsed(now, intervalMs)) {
+      return;
+    }
+
+    const task = this.queue[0];
+    if (!task || !this.fitsTokenBudget(task.cost)) {
+      return;
+    }
+
+    this.queue.shift();
+    this.lastProcessTime = now;
+    if (task.cost > 0) {
+      this.tokenLog.push({ time: now, tokens: task.cost });
+    }
+    task.run();
+  }
+
+  private fitsTokenBudget(cost: number): boolean {
+    if (this.tpm <= 0 || cost <= 0) {
+      return true;
+    }
+    const used = this.getTokensUsed();
+    // A request larger than the whole budget still runs once the window is empty
+    return used === 0 || used + cost <= this.tpm;
+  }
+
+  private hasIntervalElapsed(now: number, intervalMs: number): boolean {
+    const elapsed = now - this.lastProcessTime;
+    // The limiter is long-lived, so a clock moved backwards must not stall the queue
+    return elapsed < 0 || elapsed >= intervalMs;
+  }
+
   clearQueue(): void {
     this.queue = [];
     if (this.intervalId) {
@@ -79,4 +219,8 @@ export class RateLimiter {
       this.intervalId = null;
     }
   }
-}
\ No newline at end of file
+}
+
+function createAbortError(): DOMException {
+  return new DOMException('The operation was aborted', 'AbortError');
+}
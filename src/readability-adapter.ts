@@ -14,14 +14,19 @@ export function isReaderable(doc: Document): boolean {
   return isProbablyReaderable(doc)
 }
 
-// Extract article content for overlay mode
-export function extractArticleForOverlay(doc: Document): ExtractedArticle | null {
+// Readability strips class names, but the overlay needs the ones that mark content as not translatable
+const NO_TRANSLATE_CLASSES = ['notranslate']
+
+// Extract article content for overlay mode; classesToPreserve keeps classes that site rules refer to
+export function extractArticleForOverlay(doc: Document, classesToPreserve: string[] = []): ExtractedArticle | null {
   try {
     // Clone document to avoid modifying the original DOM
     const documentClone = doc.cloneNode(true) as Document
     
     // Parse with Readability
-    const reader = new Readability(documentClone)
+    const reader = new Readability(documentClone, {
+      classesToPreserve: [...NO_TRANSLATE_CLASSES, ...classesToPreserve]
+    })
     const article = reader.parse()
     
     if (!article || !article.content) {
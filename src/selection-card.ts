@@ -0,0 +1,140 @@
+// Floating card that shows the translation of the selected text next to the selection
+
+const CARD_GAP = 8
+const CARD_WIDTH = 360
+
+export class SelectionCard {
+  private card: HTMLElement | null = null
+  private range: Range | null = null
+  private translation = ''
+  
+  // Open the card in its loading state; without a range (e.g. text in a form field) it sits in the corner
+  show(range: Range | null): void {
+    this.hide()
+    this.range = range
+    this.card = this.createCard()
+    document.body.appendChild(this.card)
+    this.position()
+    document.addEventListener('mousedown', this.handleMouseDown, true)
+    document.addEventListener('keydown', this.handleKeyDown, true)
+  }
+  
+  setTranslation(translation: string): void {
+    if (!this.card) return
+    
+    this.translation = translation
+    this.setBody(translation)
+    this.card.querySelector<HTMLButtonElement>('.ai-translation-selection-card__copy')!.disabled = false
+    // Text outside the page DOM (form fields) cannot be replaced through a range
+    this.card.querySelector<HTMLButtonElement>('.ai-translation-selection-card__replace')!.disabled = !this.range
+  }
+  
+  setError(message: string): void {
+    if (!this.card) return
+    
+    this.setBody(message)
+    this.card.classList.add('ai-translation-selection-card--error')
+  }
+  
+  hide(): void {
+    this.card?.remove()
+    this.card = null
+    this.range = null
+    this.translation = ''
+    document.removeEventListener('mousedown', this.handleMouseDown, true)
+    document.removeEventListener('keydown', this.handleKeyDown, true)
+  }
+  
+  async copy(): Promise<void> {
+    if (!this.translation) return
+    
+    const copyButton = this.card?.querySelector('.ai-translation-selection-card__copy')
+    try {
+      await navigator.clipboard.writeText(this.translation)
+      if (copyButton) copyButton.textContent = 'Copied'
+    } catch (error) {
+      console.error('Failed to copy translation:', error)
+      if (copyButton) copyButton.textContent = 'Copy failed'
+    }
+  }
+  
+  // Swap the selected text for its translation, marked like any other translated element
+  // so "Restore Original" and the original popover work on it too
+  replaceInPage(): void {
+    if (!this.range || !this.translation) return
+    
+    const container = document.createElement('div')
+    container.appendChild(this.range.cloneContents())
+    
+    const replacement = document.createElement('span')
+    replacement.textContent = this.translation
+    replacement.setAttribute('data-original-html', container.innerHTML)
+    replacement.setAttribute('data-translated', 'true')
+    
+    this.range.deleteContents()
+    this.range.insertNode(replacement)
+    window.getSelection()?.removeAllRanges()
+    this.hide()
+  }
+  
+  private createCard(): HTMLElement {
+    const card = document.createElement('div')
+    card.className = 'ai-translation-selection-card'
+    card.setAttribute('role', 'dialog')
+    card.innerHTML = `
+      <div class="ai-translation-selection-card__body">Translating...</div>
+      <div class="ai-translation-selection-card__actions">
+        <button type="button" class="ai-translation-selection-card__copy" disabled>Copy</button>
+        <button type="button" class="ai-translation-selection-card__replace" disabled>Replace in page</button>
+        <button type="button" class="ai-translation-selection-card__close" aria-label="Close">✕</button>
+      </div>
+    `
+    card.querySelector('.ai-translation-selection-card__copy')!.addEventListener('click', () => this.copy())
+    card.querySelector('.ai-translation-selection-card__replace')!.addEventListener('click', () => this.replaceInPage())
+    card.querySelector('.ai-translation-selection-card__close')!.addEventListener('click', () => this.hide())
+    return card
+  }
+  
+  // Plain text only: the response comes from the API, not from the page
+  private setBody(text: string): void {
+    const body = this.card?.querySelector('.ai-translation-selection-card__body')
+    if (body) {
+      body.textContent = text
+    }
+    this.position()
+  }
+  
+  // Below the selection when it fits, otherwise above it
+  private position(): void {
+    if (!this.card) return
+    
+    if (!this.range) {
+      this.card.style.top = `${CARD_GAP * 2}px`
+      this.card.style.right = `${CARD_GAP * 2}px`
+      return
+    }
+    
+    const rect = this.range.getBoundingClientRect()
+    const height = this.card.offsetHeight
+    const fitsBelow = rect.bottom + CARD_GAP + height <= window.innerHeight
+    const top = fitsBelow ? rect.bottom + CARD_GAP : Math.max(CARD_GAP, rect.top - CARD_GAP - height)
+    const left = Math.min(rect.left, window.innerWidth - CARD_WIDTH - CARD_GAP)
+    
+    this.card.style.top = `${top}px`
+    this.card.style.left = `${Math.max(CARD_GAP, left)}px`
+  }
+  
+  // Clicking anywhere else closes the card
+  private handleMouseDown = (event: MouseEvent): void => {
+    if (this.card && event.target instanceof Node && !this.card.contains(event.target)) {
+      this.hide()
+    }
+  }
+  
+  private handleKeyDown = (event: KeyboardEvent): void => {
+    if (event.key === 'Escape') {
+      event.stopPropagation()
+      this.hide()
+    }
+  }
+}
@@ -58,20 +58,70 @@ export interface BlockPlaceholder {
   originalHTML: string
 }
 
+// Code, keyboard input, math and content marked as not translatable; their markup is kept verbatim
+// and only an atomic <keep_n/> placeholder is sent to the model
+const ATOMIC_SELECTOR = 'pre, code, kbd, samp, math, mjx-container, .MathJax, .MathJax_Display, .katex, .katex-display, [translate="no"], .notranslate'
+
+// Private-use characters mark atomic elements while the rest of the markup is converted
+const ATOMIC_START = '\uE000'
+const ATOMIC_END = '\uE001'
+const ATOMIC_MARKER_PATTERN = /\uE000(\d+)\uE001/g
+
+// Swap the outermost atomic elements for markers and return their original HTML
+function extractAtomicElements(html: string): { html: string; atomics: string[] } {
+  const atomics: string[] = []
+  if (!/<(pre|code|kbd|samp|math|mjx-container)\b|MathJax|katex|translate|notranslate/i.test(html)) {
+    return { html, atomics }
+  }
+  
+  const tempDiv = document.createElement('div')
+  tempDiv.innerHTML = html
+  
+  // Nested matches (e.g. <code> inside <pre>) are kept as part of their outermost atomic ancestor
+  const elements = Array.from(tempDiv.querySelectorAll(ATOMIC_SELECTOR))
+    .filter(element => !element.parentElement?.closest(ATOMIC_SELECTOR))
+  if (elements.length === 0) {
+    return { html, atomics }
+  }
+  
+  for (const element of elements) {
+    atomics.push(element.outerHTML)
+    element.replaceWith(`${ATOMIC_START}${atomics.length - 1}${ATOMIC_END}`)
+  }
+  return { html: tempDiv.innerHTML, atomics }
+}
+
+// Turn the markers into <keep_n/> placeholders mapped to the original markup
+function insertAtomicPlaceholders(text: string, atomics: string[], map: Map<string, string>): string {
+  if (atomics.length === 0) return text
+  
+  return text.replace(ATOMIC_MARKER_PATTERN, (_, index) => {
+    const placeholder = `<keep_${index}/>`
+    map.set(placeholder, atomics[Number(index)])
+    return placeholder
+  })
+}
+
 // Convert HTML content to placeholder format with block element extraction
 export function htmlToPlaceholders(html: string, extractBlocks?: boolean): { 
   text: string; 
   map: Map<string, string>;
   blockPlaceholders?: BlockPlaceholder[]
 } {
+  const extracted = extractAtomicElements(html)
+  
   if (!extractBlocks) {
     // Original implementation for backward compatibility
-    return htmlToPlaceholdersSimple(html)
+    const result = htmlToPlaceholdersSimple(extracted.html)
+    return {
+      text: insertAtomicPlaceholders(result.text, extracted.atomics, result.map),
+      map: result.map
+    }
   }
   
   // Parse HTML to extract block elements
   const tempDiv = document.createElement('div')
-  tempDiv.innerHTML = html
+  tempDiv.innerHTML = extracted.html
   
   const blockPlaceholders: BlockPlaceholder[] = []
   let blockCounter = 0
@@ -131,7 +181,7 @@ export function htmlToPlaceholders(html: string, extractBlocks?: boolean): {
   const result = htmlToPlaceholdersSimple(processedHTML)
   
   return {
-    text: result.text,
+    text: insertAtomicPlaceholders(result.text, extracted.atomics, result.map),
     map: result.map,
     blockPlaceholders
   }
@@ -184,13 +234,71 @@ function htmlToPlaceholdersSimple(html: string): { text: string; map: Map<string
   return { text, map: placeholderMap }
 }
 
+export interface PlaceholderValidation {
+  valid: boolean
+  missing: string[]     // In the source but not (or less often) in the translation
+  unexpected: string[]  // In the translation but not (or less often) in the source
+  misnested: boolean    // Tag pairs close in a different order, or a closing tag comes before its opening
+}
+
+// Opening, closing and atomic placeholders exactly as htmlToPlaceholders writes them; shared by the
+// validator, the strict prompt and the chunker so they agree on what a placeholder is
+export const PLACEHOLDER_PATTERN = /<\/?[a-z0-9]+_\d+\/?>/g
+
+// Check that a translation kept every placeholder of its source exactly once and nested the same way,
+// before placeholdersToHtml has to guess at repairs
+export function validatePlaceholders(source: string, translation: string): PlaceholderValidation {
+  const sourceTokens = source.match(PLACEHOLDER_PATTERN) || []
+  const translationTokens = translation.match(PLACEHOLDER_PATTERN) || []
+  
+  const counts = new Map<string, number>()
+  for (const token of sourceTokens) {
+    counts.set(token, (counts.get(token) || 0) + 1)
+  }
+  const unexpected: string[] = []
+  for (const token of translationTokens) {
+    const count = counts.get(token) || 0
+    if (count > 0) {
+      counts.set(token, count - 1)
+    } else {
+      unexpected.push(token)
+    }
+  }
+  const missing = Array.from(counts.entries()).flatMap(([token, count]) => new Array<string>(count).fill(token))
+  
+  // Only pairs that are complete in the source can be checked, e.g. <br_0> has no closing tag
+  const pairs = new Set(sourceTokens.filter(token => token.startsWith('</')).map(token => token.replace('</', '<')))
+  // A source that is already misnested cannot be held against the translation
+  const misnested = isWellNested(sourceTokens, pairs) && !isWellNested(translationTokens, pairs)
+  
+  return {
+    valid: missing.length === 0 && unexpected.length === 0 && !misnested,
+    missing,
+    unexpected,
+    misnested
+  }
+}
+
+function isWellNested(tokens: string[], pairs: Set<string>): boolean {
+  const open: string[] = []
+  for (const token of tokens) {
+    if (token.startsWith('</')) {
+      if (open.pop() !== token.replace('</', '<')) return false
+    } else if (pairs.has(token)) {
+      open.push(token)
+    }
+  }
+  return open.length === 0
+}
+
 // Restore placeholders back to HTML with block element restoration
 export function placeholdersToHtml(
   text: string, 
   map: Map<string, string>, 
   blockPlaceholders?: BlockPlaceholder[]
 ): string {
-  let result = text
+  // Atomic placeholders first, accepting "<keep_0>" and "<keep_0 />" as the model may write them
+  let result = text.replace(/<\s*keep_(\d+)\s*\/?\s*>/gi, (match, index) => map.get(`<keep_${index}/>`) ?? match)
   
   // Sort placeholders by length (longest first) to avoid partial replacements
   const sortedPlaceholders = Array.from(map.keys()).sort((a, b) => b.length - a.length)
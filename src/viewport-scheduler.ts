@@ -0,0 +1,136 @@
+// Viewport-driven scheduling: translate elements as they scroll into or near view
+
+export interface ViewportSchedulerOptions {
+  translate: (elements: Element[]) => Promise<void>
+  // Called whenever the queue drains, e.g. to update the badge
+  onIdle?: () => void
+  signal?: AbortSignal
+  rootMargin?: string
+  debounceMs?: number
+}
+
+// Elements within one screen height above or below the viewport are prefetched
+const DEFAULT_ROOT_MARGIN = '100% 0px'
+const DEFAULT_DEBOUNCE_MS = 100
+
+export class ViewportScheduler {
+  private observer: IntersectionObserver
+  private options: ViewportSchedulerOptions
+  private pending = new Map<Element, number>() // Element -> distance from the viewport
+  private running = false
+  private timer: ReturnType<typeof setTimeout> | null = null
+  private disconnected = false
+  
+  constructor(options: ViewportSchedulerOptions) {
+    this.options = options
+    this.observer = new IntersectionObserver(entries => this.handleEntries(entries), {
+      rootMargin: options.rootMargin || DEFAULT_ROOT_MARGIN
+    })
+    
+    if (options.signal) {
+      if (options.signal.aborted) {
+        this.disconnect()
+      } else {
+        options.signal.addEventListener('abort', () => this.disconnect(), { once: true })
+      }
+    }
+  }
+  
+  // Queue elements; they are translated once they intersect the extended viewport
+  observe(elements: Element[]): void {
+    if (this.disconnected) return
+    
+    for (const element of elements) {
+      this.observer.observe(element)
+    }
+  }
+  
+  disconnect(): void {
+    this.disconnected = true
+    this.observer.disconnect()
+    this.pending.clear()
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+  }
+  
+  private handleEntries(entries: IntersectionObserverEntry[]): void {
+    for (const entry of entries) {
+      const element = entry.target
+      
+      if (!entry.isIntersecting) {
+        // Scrolled away before its turn came, so it waits for the next visit
+        this.pending.delete(element)
+        continue
+      }
+      
+      if (element.hasAttribute('data-translated')) {
+        this.observer.unobserve(element)
+        continue
+      }
+      
+      // Failed elements are retried when they come back into view
+      if (element.hasAttribute('data-translation-failed')) {
+        element.removeAttribute('data-translation-failed')
+        element.removeAttribute('data-original-html')
+      }
+      
+      this.pending.set(element, getViewportDistance(entry.boundingClientRect))
+    }
+    
+    this.scheduleFlush()
+  }
+  
+  // Debounce so fast scrolling does not send a request per element
+  private scheduleFlush(): void {
+    if (this.timer || this.pending.size === 0) return
+    
+    this.timer = setTimeout(() => {
+      this.timer = null
+      this.flush()
+    }, this.options.debounceMs ?? DEFAULT_DEBOUNCE_MS)
+  }
+  
+  private async flush(): Promise<void> {
+    if (this.running || this.disconnected) return
+    this.running = true
+    
+    try {
+      while (this.pending.size > 0 && !this.disconnected) {
+        // Visible elements first, then the ones closest to the viewport
+        const elements = Array.from(this.pending.entries())
+          .sort((a, b) => a[1] - b[1])
+          .map(([element]) => element)
+        this.pending.clear()
+        
+        await this.options.translate(elements)
+        
+        for (const element of elements) {
+          if (element.hasAttribute('data-translated')) {
+            this.observer.unobserve(element)
+          }
+        }
+      }
+    } catch (error) {
+      console.error('Viewport translation error:', error)
+    } finally {
+      this.running = false
+    }
+    
+    if (!this.disconnected) {
+      this.options.onIdle?.()
+    }
+  }
+}
+
+// Pixels between an element and the visible viewport, 0 when it is on screen
+function getViewportDistance(rect: DOMRectReadOnly): number {
+  if (rect.bottom < 0) {
+    return -rect.bottom
+  }
+  if (rect.top > window.innerHeight) {
+    return rect.top - window.innerHeight
+  }
+  return 0
+}
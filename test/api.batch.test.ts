@@ -8,7 +8,9 @@ global.fetch = vi.fn()
 vi.mock('../src/rate-limiter', () => ({
   RateLimiter: vi.fn().mockImplementation(() => ({
     execute: vi.fn((fn) => fn()),
-    updateRPS: vi.fn()
+    updateRPS: vi.fn(),
+    reportSuccess: vi.fn(),
+    reportThrottle: vi.fn()
   }))
 }))
 
@@ -141,4 +143,54 @@ describe('API - Batch Translation', () => {
     expect(systemPrompt).toContain('NEVER remove or modify HTML placeholders')
     expect(systemPrompt).toContain('like <a_0>, </a_0>')
   })
-})
\ No newline at end of file
+
+  it('should use the JSON prompt and response format for JSON batches', async () => {
+    const translations = { translations: [{ id: '0', text: 'こんにちは' }] }
+    vi.mocked(fetch).mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        choices: [{ message: { content: JSON.stringify(translations) } }]
+      })
+    } as Response)
+
+    const result = await translateText({
+      text: JSON.stringify({ segments: [{ id: '0', text: 'Hello' }] }),
+      targetLanguage: 'ja',
+      apiEndpoint: 'https://api.test.com',
+      apiKey: 'test-key',
+      model: 'test-model',
+      format: 'json'
+    })
+
+    const fetchCall = vi.mocked(fetch).mock.calls[0]
+    const body = JSON.parse(fetchCall[1]?.body as string)
+
+    expect(body.messages[0].content).toContain('{"translations": [{"id": "...", "text": "..."}]}')
+    expect(body.messages[0].content).not.toContain('---DELIMITER---')
+    expect(body.response_format.type).toBe('json_schema')
+    expect(JSON.parse(result.translatedText)).toEqual(translations)
+  })
+
+  it('should list the placeholders to keep when re-requesting in strict mode', async () => {
+    vi.mocked(fetch).mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        choices: [{ message: { content: '<a_0>こんにちは</a_0>' } }]
+      })
+    } as Response)
+
+    await translateText({
+      text: '<a_0>Hello</a_0> <keep_0/>',
+      targetLanguage: 'ja',
+      apiEndpoint: 'https://api.test.com',
+      apiKey: 'test-key',
+      model: 'test-model',
+      strictPlaceholders: true
+    })
+
+    const fetchCall = vi.mocked(fetch).mock.calls[0]
+    const body = JSON.parse(fetchCall[1]?.body as string)
+
+    expect(body.messages[0].content).toContain('exactly once: <a_0> </a_0> <keep_0/>')
+  })
+})
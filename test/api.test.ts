@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
-import { translateText, TranslationRequest } from '../src/api'
+import { translateText, configureApi, getEffectiveRateLimit, TranslationRequest } from '../src/api'
 
 // Mock fetch
 global.fetch = vi.fn()
@@ -177,5 +177,319 @@ describe('API', () => {
       
       expect(body.messages[0].content).toContain('fr') // Should use the code as-is
     })
+
+    it('should route requests through the selected provider adapter', async () => {
+      vi.mocked(global.fetch).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ content: [{ type: 'text', text: 'こんにちは世界' }] })
+      } as Response)
+
+      const result = await translateText({
+        ...baseRequest,
+        provider: 'anthropic',
+        apiEndpoint: 'https://api.anthropic.com/v1/messages'
+      })
+
+      const [url, init] = vi.mocked(global.fetch).mock.calls[0]
+      const body = JSON.parse(init?.body as string)
+
+      expect(url).toBe('https://api.anthropic.com/v1/messages')
+      expect((init?.headers as Record<string, string>)['x-api-key']).toBe('test-api-key')
+      expect(body.system).toContain('professional translator')
+      expect(result.translatedText).toBe('こんにちは世界')
+    })
+
+    it('should read newline-delimited JSON streams from Ollama', async () => {
+      const encoder = new TextEncoder()
+      const lines = [
+        { message: { content: 'こんにちは' }, done: false },
+        { message: { content: '世界' }, done: false },
+        { message: { content: '' }, done: true }
+      ].map(line => JSON.stringify(line) + '\n').join('')
+
+      vi.mocked(global.fetch).mockResolvedValueOnce({
+        ok: true,
+        body: new ReadableStream<Uint8Array>({
+          start(controller) {
+            controller.enqueue(encoder.encode(lines))
+            controller.close()
+          }
+        })
+      } as Response)
+
+      const result = await translateText({
+        ...baseRequest,
+        provider: 'ollama',
+        apiEndpoint: 'http://localhost:11434/api/chat',
+        stream: true
+      })
+
+      expect(result.translatedText).toBe('こんにちは世界')
+    })
+  })
+
+  describe('retries', () => {
+    const retryRequest: TranslationRequest = {
+      text: 'Hello world',
+      targetLanguage: 'ja',
+      apiEndpoint: 'https://api.openai.com/v1/chat/completions',
+      apiKey: 'test-api-key',
+      model: 'gpt-3.5-turbo'
+    }
+
+    const successResponse = {
+      ok: true,
+      json: async () => ({ choices: [{ message: { content: 'こんにちは世界' } }] })
+    } as Response
+
+    function errorResponse(status: number, headers: Record<string, string> = {}, body = ''): Response {
+      return {
+        ok: false,
+        status,
+        statusText: 'Error',
+        headers: new Headers(headers),
+        text: async () => body
+      } as Response
+    }
+
+    beforeEach(() => {
+      configureApi({ rps: 100, retry: { maxAttempts: 3, baseDelayMs: 1, maxDelayMs: 5000 } })
+      vi.spyOn(console, 'debug').mockImplementation(() => {})
+    })
+
+    afterEach(() => {
+      vi.useRealTimers()
+      configureApi({ rps: 0.9, adaptiveRateLimit: false, retry: {} })
+    })
+
+    it('should retry server errors and succeed', async () => {
+      vi.mocked(global.fetch)
+        .mockResolvedValueOnce(errorResponse(503))
+        .mockResolvedValueOnce(successResponse)
+
+      const result = await translateText(retryRequest)
+
+      expect(global.fetch).toHaveBeenCalledTimes(2)
+      expect(result.translatedText).toBe('こんにちは世界')
+      expect(result.error).toBeUndefined()
+    })
+
+    it('should honour Retry-After on 429 responses', async () => {
+      vi.useFakeTimers()
+      vi.mocked(global.fetch)
+        .mockResolvedValueOnce(errorResponse(429, { 'Retry-After': '2' }))
+        .mockResolvedValueOnce(successResponse)
+
+      const promise = translateText(retryRequest)
+
+      await vi.advanceTimersByTimeAsync(1500)
+      expect(global.fetch).toHaveBeenCalledTimes(1)
+
+      await vi.advanceTimersByTimeAsync(1000)
+      expect(global.fetch).toHaveBeenCalledTimes(2)
+
+      const result = await promise
+      expect(result.translatedText).toBe('こんにちは世界')
+    })
+
+    it('should honour x-ratelimit-reset headers', async () => {
+      vi.useFakeTimers()
+      vi.mocked(global.fetch)
+        .mockResolvedValueOnce(errorResponse(429, {
+          'x-ratelimit-reset-requests': '500ms',
+          'x-ratelimit-reset-tokens': '1m0s'
+        }))
+        .mockResolvedValueOnce(successResponse)
+      configureApi({ retry: { maxDelayMs: 120000 } })
+
+      const promise = translateText(retryRequest)
+
+      await vi.advanceTimersByTimeAsync(59000)
+      expect(global.fetch).toHaveBeenCalledTimes(1)
+
+      await vi.advanceTimersByTimeAsync(2000)
+      expect(global.fetch).toHaveBeenCalledTimes(2)
+
+      await promise
+    })
+
+    it('should slow down the adaptive rate limiter on 429 responses', async () => {
+      configureApi({ rps: 8, adaptiveRateLimit: true })
+      vi.mocked(global.fetch)
+        .mockResolvedValueOnce(errorResponse(429))
+        .mockResolvedValueOnce(successResponse)
+
+      await translateText(retryRequest)
+
+      expect(getEffectiveRateLimit()).toBe(4)
+    })
+
+    it('should give up after the configured attempts and report the category', async () => {
+      vi.mocked(global.fetch).mockResolvedValue(errorResponse(429))
+
+      const result = await translateText(retryRequest)
+
+      expect(global.fetch).toHaveBeenCalledTimes(3)
+      expect(result.error).toBe('API request failed: 429 Error')
+      expect(result.errorCategory).toBe('rate_limit')
+    })
+
+    it('should not retry authentication errors', async () => {
+      vi.mocked(global.fetch).mockResolvedValue(errorResponse(401))
+
+      const result = await translateText(retryRequest)
+
+      expect(global.fetch).toHaveBeenCalledTimes(1)
+      expect(result.errorCategory).toBe('auth')
+    })
+
+    it('should not retry context length errors', async () => {
+      vi.mocked(global.fetch).mockResolvedValue(errorResponse(400, {}, JSON.stringify({
+        error: { code: 'context_length_exceeded', message: "This model's maximum context length is 8192 tokens" }
+      })))
+
+      const result = await translateText(retryRequest)
+
+      expect(global.fetch).toHaveBeenCalledTimes(1)
+      expect(result.errorCategory).toBe('context_length')
+    })
+
+    it('should retry network failures', async () => {
+      vi.mocked(global.fetch)
+        .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+        .mockResolvedValueOnce(successResponse)
+
+      const result = await translateText(retryRequest)
+
+      expect(global.fetch).toHaveBeenCalledTimes(2)
+      expect(result.translatedText).toBe('こんにちは世界')
+    })
+
+    it('should not retry a successful response with an unexpected body', async () => {
+      vi.mocked(global.fetch).mockResolvedValue({
+        ok: true,
+        json: async () => ({ error: { message: 'Something went wrong' } })
+      } as Response)
+
+      const result = await translateText(retryRequest)
+
+      expect(global.fetch).toHaveBeenCalledTimes(1)
+      expect(result.translatedText).toBe('')
+      expect(result.errorCategory).toBe('unknown')
+    })
+
+    it('should pass the abort signal to fetch and report cancellation', async () => {
+      const controller = new AbortController()
+      vi.mocked(global.fetch).mockImplementation(async () => {
+        controller.abort()
+        throw new DOMException('The operation was aborted', 'AbortError')
+      })
+
+      const result = await translateText({ ...retryRequest, signal: controller.signal })
+
+      expect(vi.mocked(global.fetch).mock.calls[0][1]?.signal).toBe(controller.signal)
+      expect(global.fetch).toHaveBeenCalledTimes(1)
+      expect(result.errorCategory).toBe('cancelled')
+    })
+
+    it('should stop waiting for a retry once cancelled', async () => {
+      vi.useFakeTimers()
+      const controller = new AbortController()
+      vi.mocked(global.fetch).mockResolvedValue(errorResponse(429, { 'Retry-After': '5' }))
+
+      const promise = translateText({ ...retryRequest, signal: controller.signal })
+
+      await vi.advanceTimersByTimeAsync(100)
+      controller.abort()
+      const result = await promise
+
+      expect(global.fetch).toHaveBeenCalledTimes(1)
+      expect(result.errorCategory).toBe('cancelled')
+    })
+  })
+
+  describe('streaming', () => {
+    const streamRequest: TranslationRequest = {
+      text: 'First\n---DELIMITER---\nSecond',
+      targetLanguage: 'ja',
+      apiEndpoint: 'https://api.openai.com/v1/chat/completions',
+      apiKey: 'test-api-key',
+      model: 'gpt-3.5-turbo',
+      stream: true
+    }
+
+    it('should request a streamed completion and assemble deltas', async () => {
+      vi.mocked(global.fetch).mockResolvedValueOnce({
+        ok: true,
+        body: createSSEStream(['最初', 'の段落'])
+      } as Response)
+
+      const result = await translateText({ ...streamRequest, text: 'First paragraph' })
+
+      const body = JSON.parse(vi.mocked(global.fetch).mock.calls[0][1]?.body as string)
+      expect(body.stream).toBe(true)
+      expect(result.translatedText).toBe('最初の段落')
+      expect(result.error).toBeUndefined()
+    })
+
+    it('should report each segment as soon as its delimiter arrives', async () => {
+      const segments: Array<[number, string]> = []
+      let segmentsBeforeLastDelta = 0
+
+      vi.mocked(global.fetch).mockResolvedValueOnce({
+        ok: true,
+        body: createSSEStream(['最初', '\n---DELI', 'MITER---\n', '二番', '目'], () => {
+          segmentsBeforeLastDelta = segments.length
+        })
+      } as Response)
+
+      const result = await translateText({
+        ...streamRequest,
+        onSegment: (index, text) => segments.push([index, text])
+      })
+
+      expect(segmentsBeforeLastDelta).toBe(1)
+      expect(segments).toEqual([[0, '最初'], [1, '二番目']])
+      expect(result.translatedText).toBe('最初\n---DELIMITER---\n二番目')
+    })
+
+    it('should handle events split across network chunks', async () => {
+      const encoder = new TextEncoder()
+      const payload = `data: ${JSON.stringify({ choices: [{ delta: { content: 'こんにちは' } }] })}\n\ndata: [DONE]\n\n`
+      const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(encoder.encode(payload.slice(0, 20)))
+          controller.enqueue(encoder.encode(payload.slice(20)))
+          controller.close()
+        }
+      })
+
+      vi.mocked(global.fetch).mockResolvedValueOnce({ ok: true, body } as Response)
+
+      const result = await translateText(streamRequest)
+
+      expect(result.translatedText).toBe('こんにちは')
+    })
+  })
+})
+
+// Build a fake SSE response body emitting one chat completion delta per chunk
+function createSSEStream(deltas: string[], beforeLastDelta?: () => void): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  let index = 0
+
+  return new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (index === deltas.length - 1) {
+        beforeLastDelta?.()
+      }
+      if (index < deltas.length) {
+        const event = { choices: [{ delta: { content: deltas[index++] } }] }
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`))
+      } else {
+        controller.enqueue(encoder.encode('data: [DONE]\n\n'))
+        controller.close()
+      }
+    }
   })
-})
\ No newline at end of file
+}
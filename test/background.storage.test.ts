@@ -22,6 +22,11 @@ global.chrome = {
       addListener: vi.fn(),
     },
   },
+  commands: {
+    onCommand: {
+      addListener: vi.fn(),
+    },
+  },
   tabs: {
     sendMessage: vi.fn(),
   },
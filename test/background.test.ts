@@ -22,6 +22,11 @@ global.chrome = {
       addListener: vi.fn(),
     },
   },
+  commands: {
+    onCommand: {
+      addListener: vi.fn(),
+    },
+  },
   tabs: {
     sendMessage: vi.fn(),
   },
@@ -79,6 +84,16 @@ describe('Background Script', () => {
         title: 'AI Translation: Japanese',
         contexts: ['page'],
       })
+      expect(chrome.contextMenus.create).toHaveBeenCalledWith({
+        id: 'translate-page-inplace',
+        title: 'AI Translation in place: Japanese',
+        contexts: ['page'],
+      })
+      expect(chrome.contextMenus.create).toHaveBeenCalledWith({
+        id: 'translate-selection',
+        title: 'AI Translation of selection: Japanese',
+        contexts: ['selection'],
+      })
     })
 
     it('should use exact string from storage', async () => {
@@ -120,6 +135,35 @@ describe('Background Script', () => {
       expect(chrome.tabs.sendMessage).toHaveBeenCalledWith(123, { action: 'translate' })
     })
 
+    it('should request in-place translation from its menu item', async () => {
+      await import('../src/background')
+
+      contextMenuClickListener({ menuItemId: 'translate-page-inplace' }, { id: 123 })
+
+      expect(chrome.tabs.sendMessage).toHaveBeenCalledWith(123, { action: 'translate', mode: 'inplace' })
+    })
+
+    it('should send the selected text from the selection menu item', async () => {
+      await import('../src/background')
+
+      contextMenuClickListener({ menuItemId: 'translate-selection', selectionText: 'Hello world' }, { id: 123 })
+
+      expect(chrome.tabs.sendMessage).toHaveBeenCalledWith(123, { action: 'translateSelection', text: 'Hello world' })
+    })
+
+    it('should translate the selection from the keyboard command', async () => {
+      let commandListener: any
+      vi.mocked(chrome.commands.onCommand.addListener).mockImplementation((listener) => {
+        commandListener = listener
+      })
+      vi.resetModules()
+      await import('../src/background')
+
+      commandListener('translate-selection', { id: 123 })
+
+      expect(chrome.tabs.sendMessage).toHaveBeenCalledWith(123, { action: 'translateSelection' })
+    })
+
     it('should ignore clicks on other menu items', async () => {
       await import('../src/background')
 
@@ -221,5 +265,27 @@ describe('Background Script', () => {
         tabId: 456
       })
     })
+
+    it('should show a cancelled badge', async () => {
+      await import('../src/background')
+
+      const sendResponse = vi.fn()
+      const sender = { tab: { id: 456 } }
+
+      messageListener(
+        { action: 'updateBadge', status: 'cancelled' },
+        sender,
+        sendResponse
+      )
+
+      expect(chrome.action.setBadgeText).toHaveBeenCalledWith({
+        text: '×',
+        tabId: 456
+      })
+      expect(chrome.action.setBadgeBackgroundColor).toHaveBeenCalledWith({
+        color: '#5f6368',
+        tabId: 456
+      })
+    })
   })
 })
\ No newline at end of file
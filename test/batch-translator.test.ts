@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
-import { BatchTranslator } from '../src/batch-translator'
+import { BatchTranslator, estimateTokens } from '../src/batch-translator'
 
 // Mock dependencies
 vi.mock('../src/cache', () => ({
@@ -9,12 +9,14 @@ vi.mock('../src/cache', () => ({
   }
 }))
 
-vi.mock('../src/utils', () => ({
+vi.mock('../src/utils', async (importOriginal) => ({
+  PLACEHOLDER_PATTERN: (await importOriginal<typeof import('../src/utils')>()).PLACEHOLDER_PATTERN,
   htmlToPlaceholders: vi.fn((html) => ({
     text: `placeholder:${html}`,
     map: new Map([['<tag_1>', '<span>'], ['</tag_1>', '</span>']])
   })),
-  placeholdersToHtml: vi.fn((text) => text.replace('placeholder:', ''))
+  placeholdersToHtml: vi.fn((text) => text.replace('placeholder:', '')),
+  validatePlaceholders: vi.fn(() => ({ valid: true, missing: [], unexpected: [], misnested: false }))
 }))
 
 vi.mock('../src/api', () => ({
@@ -23,16 +25,17 @@ vi.mock('../src/api', () => ({
 
 import { translationCache } from '../src/cache'
 import { translateText } from '../src/api'
+import { validatePlaceholders } from '../src/utils'
 
 describe('BatchTranslator', () => {
   beforeEach(() => {
     vi.clearAllMocks()
   })
-
+  
   afterEach(() => {
     vi.restoreAllMocks()
   })
-
+  
   describe('Basic functionality', () => {
     it('should create batches based on character limit', async () => {
       const translator = new BatchTranslator({ maxCharactersPerBatch: 150 })
@@ -76,7 +79,7 @@ describe('BatchTranslator', () => {
       const secondCall = vi.mocked(translateText).mock.calls[1][0]
       expect(secondCall.text).toContain('longer text')
     })
-
+    
     it('should use cache when available', async () => {
       const translator = new BatchTranslator()
       
@@ -100,7 +103,7 @@ describe('BatchTranslator', () => {
       expect(element.innerHTML).toBe('キャッシュされたテキスト')
       expect(element.getAttribute('data-translated')).toBe('true')
     })
-
+    
     it('should handle single element batches', async () => {
       const translator = new BatchTranslator()
       
@@ -123,7 +126,7 @@ describe('BatchTranslator', () => {
       const call = vi.mocked(translateText).mock.calls[0][0]
       expect(call.text).not.toContain('---DELIMITER---')
     })
-
+    
     it('should fall back to individual translation on batch error', async () => {
       const translator = new BatchTranslator()
       
@@ -152,7 +155,7 @@ describe('BatchTranslator', () => {
       // Should make 3 calls: 1 batch (failed) + 2 individual
       expect(translateText).toHaveBeenCalledTimes(3)
     })
-
+    
     it('should handle delimiter in response correctly', async () => {
       const translator = new BatchTranslator()
       
@@ -183,7 +186,7 @@ describe('BatchTranslator', () => {
       // Check cache was updated
       expect(translationCache.set).toHaveBeenCalledTimes(3)
     })
-
+    
     it('should respect custom delimiter', async () => {
       const customDelimiter = '\n<<<SPLIT>>>\n'
       const translator = new BatchTranslator({ batchDelimiter: customDelimiter })
@@ -211,7 +214,474 @@ describe('BatchTranslator', () => {
       expect(call.text).toContain(customDelimiter)
     })
   })
-
+  
+  describe('Token estimates', () => {
+    it('should count CJK characters as single tokens', () => {
+      expect(estimateTokens('abcdefgh')).toBe(2 * 2 + 300)
+      expect(estimateTokens('日本語')).toBe(3 * 2 + 300)
+    })
+    
+    it('should send an estimate with each batch', async () => {
+      const translator = new BatchTranslator()
+      
+      const elements = [createTestElement('Budgeted text')]
+      const settings = {
+        apiEndpoint: 'https://api.test.com',
+        apiKey: 'test-key',
+        model: 'test-model',
+        targetLanguage: 'ja'
+      }
+      
+      vi.mocked(translateText).mockResolvedValue({ translatedText: '予算のあるテキスト' })
+      
+      await translator.translateElements(elements, settings)
+      
+      const call = vi.mocked(translateText).mock.calls[0][0]
+      expect(call.estimatedTokens).toBe(estimateTokens(call.text))
+    })
+  })
+  
+  describe('Concurrency', () => {
+    const settings = {
+      apiEndpoint: 'https://api.test.com',
+      apiKey: 'test-key',
+      model: 'test-model',
+      targetLanguage: 'ja'
+    }
+    
+    it('should keep at most the configured number of batches in flight', async () => {
+      // One element per batch
+      const translator = new BatchTranslator({ maxCharactersPerBatch: 30, maxConcurrentBatches: 2 })
+      const elements = Array.from({ length: 5 }, (_, i) => createTestElement(`Paragraph number ${i}`))
+      
+      let inFlight = 0
+      let maxInFlight = 0
+      vi.mocked(translateText).mockImplementation(async (request) => {
+        inFlight++
+        maxInFlight = Math.max(maxInFlight, inFlight)
+        await new Promise(resolve => setTimeout(resolve, 5))
+        inFlight--
+        return { translatedText: `訳:${request.text}` }
+      })
+      
+      await translator.translateElements(elements, settings)
+      
+      expect(translateText).toHaveBeenCalledTimes(5)
+      expect(maxInFlight).toBe(2)
+      elements.forEach(element => expect(element.getAttribute('data-translated')).toBe('true'))
+    })
+    
+    it('should report progress as batches complete out of order', async () => {
+      const translator = new BatchTranslator({ maxCharactersPerBatch: 30, maxConcurrentBatches: 3 })
+      const elements = [
+        createTestElement('Slow paragraph'),
+        createTestElement('Fast paragraph')
+      ]
+      
+      const completed: string[] = []
+      vi.mocked(translateText).mockImplementation(async (request) => {
+        const delay = request.text.includes('Slow') ? 20 : 1
+        await new Promise(resolve => setTimeout(resolve, delay))
+        completed.push(request.text)
+        return { translatedText: `訳:${request.text}` }
+      })
+      
+      const progressCallback = vi.fn()
+      await translator.translateElements(elements, settings, progressCallback)
+      
+      expect(completed[0]).toContain('Fast')
+      expect(progressCallback.mock.calls).toEqual([[1, 2], [2, 2]])
+    })
+    
+    it('should look all items up in the cache at once', async () => {
+      const translator = new BatchTranslator()
+      const elements = Array.from({ length: 4 }, (_, i) => createTestElement(`Paragraph number ${i}`))
+      
+      let pending = 0
+      let maxPending = 0
+      vi.mocked(translationCache.get).mockImplementation(async (text) => {
+        pending++
+        maxPending = Math.max(maxPending, pending)
+        await new Promise(resolve => setTimeout(resolve, 1))
+        pending--
+        return text.endsWith('0') ? '訳' : null
+      })
+      vi.mocked(translateText).mockResolvedValue({
+        translatedText: ['一', '二', '三'].join('\n---DELIMITER---\n')
+      })
+      
+      await translator.translateElements(elements, settings)
+      
+      expect(maxPending).toBe(4)
+      expect(elements.map(element => element.innerHTML)).toEqual(['訳', '一', '二', '三'])
+    })
+    
+    it('should serve a split paragraph from the cache under its unsplit text', async () => {
+      const translator = new BatchTranslator({ maxCharactersPerBatch: 40 })
+      const content = 'The first sentence is here. The second sentence follows it.'
+      
+      const cached = new Map<string, string>()
+      vi.mocked(translationCache.get).mockImplementation(async (text) => cached.get(text) ?? null)
+      vi.mocked(translationCache.set).mockImplementation((text, _language, translation) => {
+        cached.set(text, translation)
+      })
+      vi.mocked(translateText).mockImplementation(async (text) => ({ translatedText: `訳 ${text}` }))
+      
+      await translator.translateElements([createTestElement(content)], settings)
+      expect(vi.mocked(translateText).mock.calls.length).toBeGreaterThan(1)
+      vi.mocked(translateText).mockClear()
+      
+      const element = createTestElement(content)
+      await translator.translateElements([element], settings)
+      
+      expect(translateText).not.toHaveBeenCalled()
+      expect(cached.get(`placeholder:${content}`)).toBe(element.innerHTML)
+      expect(element.getAttribute('data-translated')).toBe('true')
+    })
+  })
+  
+  describe('Cancellation', () => {
+    it('should stop scheduling batches and release unfinished elements once aborted', async () => {
+      const translator = new BatchTranslator({ maxCharactersPerBatch: 30, maxConcurrentBatches: 1 })
+      const elements = Array.from({ length: 3 }, (_, i) => createTestElement(`Paragraph number ${i}`))
+      const controller = new AbortController()
+      
+      vi.mocked(translateText)
+        .mockImplementationOnce(async (request) => ({ translatedText: `訳:${request.text}` }))
+        .mockImplementationOnce(async () => {
+          controller.abort()
+          return { translatedText: '', error: 'Translation cancelled', errorCategory: 'cancelled' }
+        })
+      
+      await translator.translateElements(elements, {
+        apiEndpoint: 'https://api.test.com',
+        apiKey: 'test-key',
+        model: 'test-model',
+        targetLanguage: 'ja'
+      }, undefined, { signal: controller.signal })
+      
+      expect(translateText).toHaveBeenCalledTimes(2)
+      expect(vi.mocked(translateText).mock.calls[1][0].signal).toBe(controller.signal)
+      expect(elements[0].getAttribute('data-translated')).toBe('true')
+      expect(elements[1].hasAttribute('data-translation-failed')).toBe(false)
+      expect(elements[1].hasAttribute('data-original-html')).toBe(false)
+      expect(elements[2].hasAttribute('data-original-html')).toBe(false)
+    })
+  })
+  
+  describe('Bilingual display', () => {
+    it('should keep the original markup above each translation', async () => {
+      const translator = new BatchTranslator({ bilingual: true })
+      const element = createTestElement('Hello <em>world</em>')
+      
+      vi.mocked(translateText).mockResolvedValueOnce({ translatedText: 'こんにちは<em>世界</em>' })
+      
+      await translator.translateElements([element], {
+        apiEndpoint: 'https://api.test.com',
+        apiKey: 'test-key',
+        model: 'test-model',
+        targetLanguage: 'ja'
+      })
+      
+      expect(element.innerHTML).toBe(
+        '<span class="ai-translation-original">Hello <em>world</em></span>' +
+        '<span class="ai-translation-translated">こんにちは<em>世界</em></span>'
+      )
+      expect(element.getAttribute('data-original-html')).toBe('Hello <em>world</em>')
+      expect(element.getAttribute('data-translated')).toBe('true')
+    })
+    
+    it('should render cached translations bilingually too', async () => {
+      const translator = new BatchTranslator({ bilingual: true })
+      const element = createTestElement('Cached text')
+      
+      vi.mocked(translationCache.get).mockResolvedValueOnce('キャッシュされたテキスト')
+      
+      await translator.translateElements([element], {
+        apiEndpoint: 'https://api.test.com',
+        apiKey: 'test-key',
+        model: 'test-model',
+        targetLanguage: 'ja'
+      })
+      
+      expect(translateText).not.toHaveBeenCalled()
+      expect(element.querySelector('.ai-translation-original')?.textContent).toBe('Cached text')
+      expect(element.querySelector('.ai-translation-translated')?.textContent).toBe('キャッシュされたテキスト')
+    })
+  })
+  
+  describe('Attributes', () => {
+    const settings = {
+      apiEndpoint: 'https://api.test.com',
+      apiKey: 'test-key',
+      model: 'test-model',
+      targetLanguage: 'ja'
+    }
+    
+    it('should translate attribute values in the same batch as element content', async () => {
+      const translator = new BatchTranslator()
+      const paragraph = createTestElement('Paragraph text')
+      const image = document.createElement('img')
+      image.setAttribute('alt', 'A diagram')
+      
+      vi.mocked(translateText).mockResolvedValueOnce({
+        translatedText: '段落のテキスト\n---DELIMITER---\n図'
+      })
+      
+      await translator.translateElements([paragraph], settings, undefined, {
+        attributes: [{ element: image, name: 'alt' }]
+      })
+      
+      expect(translateText).toHaveBeenCalledTimes(1)
+      expect(vi.mocked(translateText).mock.calls[0][0].text).toContain('A diagram')
+      expect(paragraph.innerHTML).toBe('段落のテキスト')
+      expect(image.getAttribute('alt')).toBe('図')
+      expect(image.getAttribute('data-original-attr-alt')).toBe('A diagram')
+      // The element itself is not marked, so its content can still be translated
+      expect(image.hasAttribute('data-translated')).toBe(false)
+    })
+    
+    it('should translate attributes inside a translated paragraph on the nodes written for it', async () => {
+      const translator = new BatchTranslator()
+      const paragraph = document.createElement('p')
+      paragraph.innerHTML = 'Read <a title="Open settings">the guide</a> first'
+      document.body.appendChild(paragraph)
+      const link = paragraph.querySelector('a')!
+      
+      vi.mocked(translateText)
+        .mockResolvedValueOnce({ translatedText: '先に<a title="Open settings">ガイド</a>を読む' })
+        .mockResolvedValueOnce({ translatedText: '設定を開く' })
+      
+      await translator.translateElements([paragraph], settings, undefined, {
+        attributes: [{ element: link, name: 'title' }]
+      })
+      
+      // The paragraph is written first, then the title is translated on the link that replaced the old one
+      expect(translateText).toHaveBeenCalledTimes(2)
+      expect(vi.mocked(translateText).mock.calls[1][0].text).toBe('Open settings')
+      expect(link.isConnected).toBe(false)
+      const writtenLink = paragraph.querySelector('a')!
+      expect(writtenLink.getAttribute('title')).toBe('設定を開く')
+      expect(writtenLink.getAttribute('data-original-attr-title')).toBe('Open settings')
+      
+      paragraph.remove()
+    })
+    
+    it('should release failed attribute values instead of flagging the element', async () => {
+      const translator = new BatchTranslator()
+      const link = document.createElement('a')
+      link.setAttribute('title', 'Open settings')
+      
+      vi.mocked(translateText).mockResolvedValueOnce({ translatedText: '', error: 'HTTP error! status: 500', errorCategory: 'server' })
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+      
+      await translator.translateElements([], settings, undefined, {
+        attributes: [{ element: link, name: 'title' }]
+      })
+      
+      expect(link.getAttribute('title')).toBe('Open settings')
+      expect(link.hasAttribute('data-original-attr-title')).toBe(false)
+      expect(link.hasAttribute('data-translation-failed')).toBe(false)
+    })
+  })
+  
+  describe('JSON protocol', () => {
+    const settings = {
+      apiEndpoint: 'https://api.test.com',
+      apiKey: 'test-key',
+      model: 'test-model',
+      targetLanguage: 'ja'
+    }
+    
+    it('should send segments with ids and map results by id', async () => {
+      const translator = new BatchTranslator({ protocol: 'json' })
+      const elements = [
+        createTestElement('First paragraph'),
+        createTestElement('Second paragraph')
+      ]
+      
+      vi.mocked(translateText).mockResolvedValueOnce({
+        translatedText: JSON.stringify({ translations: [
+          { id: '1', text: '二番目の段落' },
+          { id: '0', text: '最初の段落' }
+        ] })
+      })
+      
+      await translator.translateElements(elements, settings)
+      
+      const request = vi.mocked(translateText).mock.calls[0][0]
+      expect(request.format).toBe('json')
+      expect(JSON.parse(request.text)).toEqual({ segments: [
+        { id: '0', text: 'placeholder:First paragraph' },
+        { id: '1', text: 'placeholder:Second paragraph' }
+      ] })
+      expect(elements[0].innerHTML).toBe('最初の段落')
+      expect(elements[1].innerHTML).toBe('二番目の段落')
+    })
+    
+    it('should only fail the segments missing from the response', async () => {
+      const translator = new BatchTranslator({ protocol: 'json' })
+      const elements = [
+        createTestElement('First'),
+        createTestElement('Second'),
+        createTestElement('Third')
+      ]
+      
+      // Fenced, and the model skipped the middle segment
+      vi.mocked(translateText).mockResolvedValueOnce({
+        translatedText: '```json\n{"translations": [{"id": "0", "text": "最初"}, {"id": "2", "text": "三番目"}]}\n```'
+      })
+      
+      await translator.translateElements(elements, settings)
+      
+      expect(elements[0].innerHTML).toBe('最初')
+      expect(elements[1].getAttribute('data-translation-failed')).toBe('true')
+      expect(elements[2].innerHTML).toBe('三番目')
+    })
+    
+    it('should fail the whole batch when the response is not JSON', async () => {
+      const translator = new BatchTranslator({ protocol: 'json' })
+      const elements = [createTestElement('First'), createTestElement('Second')]
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+      
+      vi.mocked(translateText).mockResolvedValueOnce({ translatedText: '最初\n---DELIMITER---\n二番目' })
+      
+      await translator.translateElements(elements, settings)
+      
+      expect(elements[0].getAttribute('data-translation-failed')).toBe('true')
+      expect(elements[1].getAttribute('data-translation-failed')).toBe('true')
+    })
+  })
+  
+  describe('Placeholder validation', () => {
+    const settings = {
+      apiEndpoint: 'https://api.test.com',
+      apiKey: 'test-key',
+      model: 'test-model',
+      targetLanguage: 'ja'
+    }
+    const broken = { valid: false, missing: ['</tag_1>'], unexpected: [], misnested: false }
+    
+    it('should re-request a segment with broken placeholders on its own in strict mode', async () => {
+      const translator = new BatchTranslator()
+      const elements = [createTestElement('First'), createTestElement('Second')]
+      
+      vi.mocked(validatePlaceholders).mockReturnValueOnce(broken)
+      vi.mocked(translateText)
+        .mockResolvedValueOnce({ translatedText: '壊れた\n---DELIMITER---\n二番目' })
+        .mockResolvedValueOnce({ translatedText: '最初' })
+      
+      await translator.translateElements(elements, settings)
+      
+      expect(translateText).toHaveBeenCalledTimes(2)
+      expect(vi.mocked(translateText).mock.calls[1][0]).toMatchObject({
+        text: 'placeholder:First',
+        strictPlaceholders: true
+      })
+      expect(elements[0].innerHTML).toBe('最初')
+      expect(elements[1].innerHTML).toBe('二番目')
+    })
+    
+    it('should fall back to the heuristic repair when the strict re-request is broken too', async () => {
+      const translator = new BatchTranslator()
+      const element = createTestElement('First')
+      
+      vi.mocked(validatePlaceholders).mockReturnValueOnce(broken).mockReturnValueOnce(broken)
+      vi.mocked(translateText)
+        .mockResolvedValueOnce({ translatedText: '最初の試み' })
+        .mockResolvedValueOnce({ translatedText: '二回目の試み' })
+      vi.spyOn(console, 'debug').mockImplementation(() => {})
+      
+      await translator.translateElements([element], settings)
+      
+      expect(element.innerHTML).toBe('最初の試み')
+      // The repaired translation is shown but not cached, so the next visit gets a clean retry
+      expect(translationCache.set).not.toHaveBeenCalled()
+    })
+  })
+  
+  describe('Streaming', () => {
+    it('should apply each streamed segment before the response completes', async () => {
+      const translator = new BatchTranslator({ streaming: true })
+      
+      const elements = [
+        createTestElement('First paragraph'),
+        createTestElement('Second paragraph')
+      ]
+      
+      const settings = {
+        apiEndpoint: 'https://api.test.com',
+        apiKey: 'test-key',
+        model: 'test-model',
+        targetLanguage: 'ja'
+      }
+      
+      let firstAppliedMidStream = false
+      vi.mocked(translateText).mockImplementation(async (request) => {
+        request.onSegment?.(0, '最初の段落')
+        firstAppliedMidStream = elements[0].getAttribute('data-translated') === 'true' &&
+          elements[1].getAttribute('data-translated') === null
+        request.onSegment?.(1, '二番目の段落')
+        return { translatedText: '最初の段落\n---DELIMITER---\n二番目の段落' }
+      })
+      
+      await translator.translateElements(elements, settings)
+      
+      expect(vi.mocked(translateText).mock.calls[0][0].stream).toBe(true)
+      expect(firstAppliedMidStream).toBe(true)
+      expect(elements[0].innerHTML).toBe('最初の段落')
+      expect(elements[1].innerHTML).toBe('二番目の段落')
+      
+      // Segments applied while streaming are not applied again
+      expect(translationCache.set).toHaveBeenCalledTimes(2)
+    })
+    
+    it('should retranslate streamed segments when the final segment count does not match', async () => {
+      const translator = new BatchTranslator({ streaming: true })
+      
+      const elements = [
+        createTestElement('First paragraph'),
+        createTestElement('Second paragraph'),
+        createTestElement('Third paragraph')
+      ]
+      
+      const settings = {
+        apiEndpoint: 'https://api.test.com',
+        apiKey: 'test-key',
+        model: 'test-model',
+        targetLanguage: 'ja'
+      }
+      
+      // The first delimiter is dropped, so the third paragraph's translation streams onto the second
+      let streamedOntoSecond = ''
+      vi.mocked(translateText).mockImplementationOnce(async (request) => {
+        request.onSegment?.(0, '最初の段落 二番目の段落')
+        request.onSegment?.(1, '三番目の段落')
+        streamedOntoSecond = elements[1].innerHTML
+        return { translatedText: '最初の段落 二番目の段落\n---DELIMITER---\n三番目の段落' }
+      }).mockResolvedValueOnce({
+        translatedText: '最初の段落\n---DELIMITER---\n二番目の段落'
+      }).mockResolvedValueOnce({
+        translatedText: '三番目の段落'
+      })
+      vi.spyOn(console, 'debug').mockImplementation(() => {})
+      
+      await translator.translateElements(elements, settings)
+      
+      expect(streamedOntoSecond).toBe('三番目の段落')
+      expect(translateText).toHaveBeenCalledTimes(3)
+      expect(elements.map(element => element.innerHTML)).toEqual(['最初の段落', '二番目の段落', '三番目の段落'])
+      
+      // The misaligned segments were never cached
+      const cached = vi.mocked(translationCache.set).mock.calls.map(call => [call[0], call[2]])
+      expect(cached).toEqual([
+        ['placeholder:First paragraph', '最初の段落'],
+        ['placeholder:Second paragraph', '二番目の段落'],
+        ['placeholder:Third paragraph', '三番目の段落']
+      ])
+    })
+  })
+  
   describe('Edge cases', () => {
     it('should skip already translated elements', async () => {
       const translator = new BatchTranslator()
@@ -230,7 +700,7 @@ describe('BatchTranslator', () => {
       
       expect(translateText).not.toHaveBeenCalled()
     })
-
+    
     it('should skip empty elements', async () => {
       const translator = new BatchTranslator()
       
@@ -247,7 +717,36 @@ describe('BatchTranslator', () => {
       
       expect(translateText).not.toHaveBeenCalled()
     })
-
+    
+    it('should flag elements as failed when the request ultimately fails', async () => {
+      const translator = new BatchTranslator()
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+      
+      const elements = [
+        createTestElement('First'),
+        createTestElement('Second')
+      ]
+      
+      const settings = {
+        apiEndpoint: 'https://api.test.com',
+        apiKey: 'test-key',
+        model: 'test-model',
+        targetLanguage: 'ja'
+      }
+      
+      vi.mocked(translateText).mockResolvedValue({
+        translatedText: '',
+        error: 'API request failed: 429 Too Many Requests',
+        errorCategory: 'rate_limit'
+      })
+      
+      await translator.translateElements(elements, settings)
+      
+      expect(elements[0].getAttribute('data-translation-failed')).toBe('true')
+      expect(elements[1].getAttribute('data-translation-failed')).toBe('true')
+      expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining('rate_limit'), expect.any(String))
+    })
+    
     it('should handle mismatched translation count', async () => {
       const translator = new BatchTranslator()
       
@@ -264,19 +763,68 @@ describe('BatchTranslator', () => {
         targetLanguage: 'ja'
       }
       
-      // Return only 2 translations for 3 elements
-      vi.mocked(translateText).mockResolvedValue({
-        translatedText: '最初\n---DELIMITER---\n二番目'
-      })
+      // Return only 2 translations for 3 elements, then answer the halves correctly
+      vi.mocked(translateText)
+        .mockResolvedValueOnce({ translatedText: '最初と二番目\n---DELIMITER---\n三番目' })
+        .mockResolvedValueOnce({ translatedText: '最初\n---DELIMITER---\n二番目' })
+        .mockResolvedValueOnce({ translatedText: '三番目' })
+      vi.spyOn(console, 'debug').mockImplementation(() => {})
       
       await translator.translateElements(elements, settings)
       
-      // First two should be translated
+      // The misaligned response is discarded and the batch retried in halves
+      expect(translateText).toHaveBeenCalledTimes(3)
+      expect(vi.mocked(translateText).mock.calls[1][0].text).toBe('placeholder:First\n---DELIMITER---\nplaceholder:Second')
+      expect(vi.mocked(translateText).mock.calls[2][0].text).toBe('placeholder:Third')
       expect(elements[0].innerHTML).toBe('最初')
       expect(elements[1].innerHTML).toBe('二番目')
+      expect(elements[2].innerHTML).toBe('三番目')
+      expect(translator.getMismatchStats()).toEqual({ batches: 3, mismatches: 1, bisectRequests: 2, unrecovered: 0 })
+    })
+    
+    it('should keep splitting until the segments line up', async () => {
+      const translator = new BatchTranslator()
+      const elements = ['One', 'Two', 'Three', 'Four'].map(createTestElement)
+      const settings = {
+        apiEndpoint: 'https://api.test.com',
+        apiKey: 'test-key',
+        model: 'test-model',
+        targetLanguage: 'ja'
+      }
       
-      // Third should remain unchanged
-      expect(elements[2].getAttribute('data-translated')).toBeNull()
+      vi.mocked(translateText)
+        .mockResolvedValueOnce({ translatedText: '一\n---DELIMITER---\n二三四' })
+        .mockResolvedValueOnce({ translatedText: '一二' })
+        .mockResolvedValueOnce({ translatedText: '一' })
+        .mockResolvedValueOnce({ translatedText: '二' })
+        .mockResolvedValueOnce({ translatedText: '三\n---DELIMITER---\n四' })
+      vi.spyOn(console, 'debug').mockImplementation(() => {})
+      
+      await translator.translateElements(elements, settings)
+      
+      expect(elements.map(element => element.innerHTML)).toEqual(['一', '二', '三', '四'])
+      expect(translator.getMismatchStats()).toMatchObject({ mismatches: 2, bisectRequests: 4 })
+    })
+    
+    it('should mark the items failed once the extra request cap is reached', async () => {
+      const translator = new BatchTranslator({ maxBisectRequests: 0 })
+      const elements = [createTestElement('First'), createTestElement('Second')]
+      const settings = {
+        apiEndpoint: 'https://api.test.com',
+        apiKey: 'test-key',
+        model: 'test-model',
+        targetLanguage: 'ja'
+      }
+      
+      vi.mocked(translateText).mockResolvedValueOnce({ translatedText: '最初と二番目' })
+      vi.spyOn(console, 'warn').mockImplementation(() => {})
+      
+      await translator.translateElements(elements, settings)
+      
+      expect(translateText).toHaveBeenCalledTimes(1)
+      expect(elements[0].getAttribute('data-translation-failed')).toBe('true')
+      expect(elements[1].getAttribute('data-translation-failed')).toBe('true')
+      expect(translator.getMismatchStats()).toMatchObject({ mismatches: 1, unrecovered: 2 })
     })
   })
 })
@@ -1,5 +1,5 @@
-import { describe, it, expect, beforeEach } from 'vitest'
-import { TranslationCache } from '../src/cache'
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { TranslationCache, CacheStore, CacheEntry } from '../src/cache'
 
 describe('TranslationCache', () => {
   let cache: TranslationCache
@@ -9,101 +9,101 @@ describe('TranslationCache', () => {
   })
 
   describe('get and set', () => {
-    it('should store and retrieve translations', () => {
+    it('should store and retrieve translations', async () => {
       const text = 'Hello world'
       const targetLanguage = 'ja'
       const translatedText = 'こんにちは世界'
 
-      cache.set(text, targetLanguage, translatedText)
-      const result = cache.get(text, targetLanguage)
+      await cache.set(text, targetLanguage, translatedText)
+      const result = await cache.get(text, targetLanguage)
 
       expect(result).toBe(translatedText)
     })
 
-    it('should return null for non-existent entries', () => {
-      const result = cache.get('non-existent', 'ja')
+    it('should return null for non-existent entries', async () => {
+      const result = await cache.get('non-existent', 'ja')
       expect(result).toBeNull()
     })
 
-    it('should handle different languages for same text', () => {
+    it('should handle different languages for same text', async () => {
       const text = 'Hello'
       
-      cache.set(text, 'ja', 'こんにちは')
-      cache.set(text, 'ko', '안녕하세요')
+      await cache.set(text, 'ja', 'こんにちは')
+      await cache.set(text, 'ko', '안녕하세요')
 
-      expect(cache.get(text, 'ja')).toBe('こんにちは')
-      expect(cache.get(text, 'ko')).toBe('안녕하세요')
+      expect(await cache.get(text, 'ja')).toBe('こんにちは')
+      expect(await cache.get(text, 'ko')).toBe('안녕하세요')
     })
   })
 
   describe('LRU behavior', () => {
-    it('should evict oldest entry when capacity is reached', () => {
+    it('should evict oldest entry when capacity is reached', async () => {
       // Fill cache to capacity
-      cache.set('text1', 'ja', 'translation1')
-      cache.set('text2', 'ja', 'translation2')
-      cache.set('text3', 'ja', 'translation3')
+      await cache.set('text1', 'ja', 'translation1')
+      await cache.set('text2', 'ja', 'translation2')
+      await cache.set('text3', 'ja', 'translation3')
 
       // Add one more - should evict text1
-      cache.set('text4', 'ja', 'translation4')
+      await cache.set('text4', 'ja', 'translation4')
 
-      expect(cache.get('text1', 'ja')).toBeNull()
-      expect(cache.get('text2', 'ja')).toBe('translation2')
-      expect(cache.get('text3', 'ja')).toBe('translation3')
-      expect(cache.get('text4', 'ja')).toBe('translation4')
+      expect(await cache.get('text1', 'ja')).toBeNull()
+      expect(await cache.get('text2', 'ja')).toBe('translation2')
+      expect(await cache.get('text3', 'ja')).toBe('translation3')
+      expect(await cache.get('text4', 'ja')).toBe('translation4')
     })
 
-    it('should update LRU order on get', () => {
+    it('should update LRU order on get', async () => {
       // Fill cache
-      cache.set('text1', 'ja', 'translation1')
-      cache.set('text2', 'ja', 'translation2')
-      cache.set('text3', 'ja', 'translation3')
+      await cache.set('text1', 'ja', 'translation1')
+      await cache.set('text2', 'ja', 'translation2')
+      await cache.set('text3', 'ja', 'translation3')
 
       // Access text1 to make it recently used
-      cache.get('text1', 'ja')
+      await cache.get('text1', 'ja')
 
       // Add new item - should evict text2 (least recently used)
-      cache.set('text4', 'ja', 'translation4')
+      await cache.set('text4', 'ja', 'translation4')
 
-      expect(cache.get('text1', 'ja')).toBe('translation1')
-      expect(cache.get('text2', 'ja')).toBeNull()
-      expect(cache.get('text3', 'ja')).toBe('translation3')
-      expect(cache.get('text4', 'ja')).toBe('translation4')
+      expect(await cache.get('text1', 'ja')).toBe('translation1')
+      expect(await cache.get('text2', 'ja')).toBeNull()
+      expect(await cache.get('text3', 'ja')).toBe('translation3')
+      expect(await cache.get('text4', 'ja')).toBe('translation4')
     })
 
-    it('should not evict when updating existing entry', () => {
-      cache.set('text1', 'ja', 'translation1')
-      cache.set('text2', 'ja', 'translation2')
-      cache.set('text3', 'ja', 'translation3')
+    it('should not evict when updating existing entry', async () => {
+      await cache.set('text1', 'ja', 'translation1')
+      await cache.set('text2', 'ja', 'translation2')
+      await cache.set('text3', 'ja', 'translation3')
 
       // Update existing entry
-      cache.set('text2', 'ja', 'translation2-updated')
+      await cache.set('text2', 'ja', 'translation2-updated')
 
       expect(cache.size()).toBe(3)
-      expect(cache.get('text2', 'ja')).toBe('translation2-updated')
+      expect(await cache.get('text2', 'ja')).toBe('translation2-updated')
     })
   })
 
   describe('clear', () => {
-    it('should remove all entries', () => {
-      cache.set('text1', 'ja', 'translation1')
-      cache.set('text2', 'ja', 'translation2')
+    it('should remove all entries', async () => {
+      await cache.set('text1', 'ja', 'translation1')
+      await cache.set('text2', 'ja', 'translation2')
 
       cache.clear()
 
       expect(cache.size()).toBe(0)
-      expect(cache.get('text1', 'ja')).toBeNull()
-      expect(cache.get('text2', 'ja')).toBeNull()
+      expect(await cache.get('text1', 'ja')).toBeNull()
+      expect(await cache.get('text2', 'ja')).toBeNull()
     })
   })
 
   describe('size', () => {
-    it('should return correct cache size', () => {
+    it('should return correct cache size', async () => {
       expect(cache.size()).toBe(0)
 
-      cache.set('text1', 'ja', 'translation1')
+      await cache.set('text1', 'ja', 'translation1')
       expect(cache.size()).toBe(1)
 
-      cache.set('text2', 'ja', 'translation2')
+      await cache.set('text2', 'ja', 'translation2')
       expect(cache.size()).toBe(2)
 
       cache.clear()
@@ -112,27 +112,104 @@ describe('TranslationCache', () => {
   })
 
   describe('hash function', () => {
-    it('should generate consistent keys for same input', () => {
+    it('should generate consistent keys for same input', async () => {
       const text = 'Test text with special characters: 日本語 한국어'
       const language = 'en'
 
-      cache.set(text, language, 'translation')
-      const result1 = cache.get(text, language)
+      await cache.set(text, language, 'translation')
+      const result1 = await cache.get(text, language)
       
       // Clear and set again
       cache.clear()
-      cache.set(text, language, 'translation')
-      const result2 = cache.get(text, language)
+      await cache.set(text, language, 'translation')
+      const result2 = await cache.get(text, language)
 
       expect(result1).toBe(result2)
     })
 
-    it('should generate different keys for different inputs', () => {
-      cache.set('text1', 'ja', 'translation1')
-      cache.set('text2', 'ja', 'translation2')
+    it('should generate different keys for different inputs', async () => {
+      await cache.set('text1', 'ja', 'translation1')
+      await cache.set('text2', 'ja', 'translation2')
 
-      expect(cache.get('text1', 'ja')).toBe('translation1')
-      expect(cache.get('text2', 'ja')).toBe('translation2')
+      expect(await cache.get('text1', 'ja')).toBe('translation1')
+      expect(await cache.get('text2', 'ja')).toBe('translation2')
+    })
+  })
+
+  describe('persistent store', () => {
+    function createStore(entries: Record<string, CacheEntry> = {}): CacheStore {
+      return {
+        get: vi.fn(async (key: string) => entries[key] || null),
+        set: vi.fn(async (key: string, entry: CacheEntry) => {
+          entries[key] = entry
+        }),
+        clear: vi.fn(async () => {}),
+        recordHit: vi.fn()
+      }
+    }
+
+    it('should write through to the store', async () => {
+      const entries: Record<string, CacheEntry> = {}
+      const store = createStore(entries)
+      cache.setStore(store)
+
+      await cache.set('Hello', 'ja', 'こんにちは')
+
+      expect(store.set).toHaveBeenCalledTimes(1)
+      expect(Object.values(entries)[0].translatedText).toBe('こんにちは')
+    })
+
+    it('should fall back to the store on a memory miss and remember the result', async () => {
+      const entries: Record<string, CacheEntry> = {}
+      const writer = new TranslationCache(3, createStore(entries))
+      await writer.set('Hello', 'ja', 'こんにちは')
+
+      const store = createStore(entries)
+      cache.setStore(store)
+
+      expect(await cache.get('Hello', 'ja')).toBe('こんにちは')
+      expect(await cache.get('Hello', 'ja')).toBe('こんにちは')
+      expect(store.get).toHaveBeenCalledTimes(1)
+      expect(cache.size()).toBe(1)
+      // The second lookup was served from memory, which the store only learns about when told
+      expect(store.recordHit).toHaveBeenCalledTimes(1)
+    })
+
+    it('should treat store failures as a miss', async () => {
+      const store = createStore()
+      vi.mocked(store.get).mockRejectedValue(new Error('unavailable'))
+      vi.spyOn(console, 'debug').mockImplementation(() => {})
+      cache.setStore(store)
+
+      expect(await cache.get('Hello', 'ja')).toBeNull()
+    })
+
+    it('should reject stored entries whose source text does not match', async () => {
+      const entries: Record<string, CacheEntry> = {}
+      const writer = new TranslationCache(3, createStore(entries))
+      await writer.set('Hello', 'ja', 'こんにちは')
+      const key = Object.keys(entries)[0]
+      entries[key] = { ...entries[key], sourceText: 'A colliding paragraph' }
+
+      cache.setStore(createStore(entries))
+
+      expect(await cache.get('Hello', 'ja')).toBeNull()
+    })
+  })
+
+  describe('scope', () => {
+    it('should keep translations from different models apart', async () => {
+      await cache.set('Hello', 'ja', 'こんにちは', { model: 'gpt-4.1-nano' })
+
+      expect(await cache.get('Hello', 'ja', { model: 'gpt-4.1-nano' })).toBe('こんにちは')
+      expect(await cache.get('Hello', 'ja', { model: 'claude-sonnet' })).toBeNull()
+      expect(await cache.get('Hello', 'ja')).toBeNull()
+    })
+
+    it('should keep translations from different endpoints apart', async () => {
+      await cache.set('Hello', 'ja', 'こんにちは', { apiEndpoint: 'https://a.example.com' })
+
+      expect(await cache.get('Hello', 'ja', { apiEndpoint: 'https://b.example.com' })).toBeNull()
     })
   })
 })
\ No newline at end of file
@@ -30,7 +30,10 @@ vi.mock('../src/element-translator', () => ({
   getTranslatableElements: vi.fn(() => {
     // Return all <p> elements as translatable
     return Array.from(document.querySelectorAll('p'))
-  })
+  }),
+  getTranslatableAttributes: vi.fn(() => []),
+  isExcludedFromTranslation: vi.fn(() => false),
+  DEFAULT_TRANSLATED_ATTRIBUTES: []
 }))
 
 // Mock BatchTranslator
@@ -18,7 +18,7 @@ global.chrome = {
 
 describe('Content Script', () => {
   let messageListener: any
-
+  
   beforeEach(() => {
     // Clear all mocks
     vi.clearAllMocks()
@@ -31,11 +31,11 @@ describe('Content Script', () => {
       messageListener = listener
     })
   })
-
+  
   afterEach(() => {
     vi.restoreAllMocks()
   })
-
+  
   describe('Message handling', () => {
     it('should register message listener on load', async () => {
       // Dynamic import to trigger module initialization
@@ -44,7 +44,7 @@ describe('Content Script', () => {
       expect(chrome.runtime.onMessage.addListener).toHaveBeenCalledTimes(1)
       expect(messageListener).toBeDefined()
     })
-
+    
     it('should handle translate action', async () => {
       await import('../src/content')
       
@@ -73,7 +73,162 @@ describe('Content Script', () => {
       
       expect(chrome.storage.local.get).toHaveBeenCalled()
     })
-
+    
+    it('should translate the live page in place when requested', async () => {
+      await import('../src/content')
+      
+      const sendResponse = vi.fn()
+      document.body.innerHTML = '<p>Hello world from the live page</p>'
+      
+      vi.mocked(chrome.storage.local.get).mockImplementation(((_keys: string[], callback: (items: object) => void) => {
+        callback({
+          apiEndpoint: 'https://api.openai.com/v1/chat/completions',
+          apiKey: 'test-key',
+          model: 'gpt-3.5-turbo',
+          targetLanguage: 'ja'
+        })
+      }) as any)
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({ choices: [{ message: { content: 'ライブページからこんにちは' } }] })
+      })
+      
+      messageListener(
+        { action: 'translate', mode: 'inplace' },
+        { tab: { id: 1 } },
+        sendResponse
+      )
+      
+      await vi.waitFor(() => expect(sendResponse).toHaveBeenCalledWith({ status: 'completed' }))
+      
+      const paragraph = document.querySelector('p')!
+      expect(paragraph.textContent).toBe('ライブページからこんにちは')
+      expect(paragraph.getAttribute('data-translated')).toBe('true')
+      expect(document.querySelector('.ai-translation-overlay')).toBeNull()
+    })
+    
+    it('should translate attributes inside lazily translated elements with those elements', async () => {
+      await import('../src/content')
+      
+      // Report every observed element as in view
+      global.IntersectionObserver = class {
+        constructor(private callback: IntersectionObserverCallback) {}
+        observe(target: Element) {
+          this.callback([{ target, isIntersecting: true, boundingClientRect: target.getBoundingClientRect() } as any], this as any)
+        }
+        unobserve() {}
+        disconnect() {}
+      } as any
+      
+      const sendResponse = vi.fn()
+      document.body.innerHTML = '<p>Read <a href="/settings" title="Open settings">the guide</a> first</p>'
+      
+      vi.mocked(chrome.storage.local.get).mockImplementation(((_keys: string[], callback: (items: object) => void) => {
+        callback({
+          apiEndpoint: 'https://api.openai.com/v1/chat/completions',
+          apiKey: 'test-key',
+          model: 'gpt-3.5-turbo',
+          targetLanguage: 'ja'
+        })
+      }) as any)
+      global.fetch = vi.fn().mockImplementation(async (_url: string, init: RequestInit) => {
+        const text = JSON.parse(init.body as string).messages[1].content
+        const content = text.includes('<a_0>') ? '先に<a_0>ガイド</a_0>を読む' : '設定を開く'
+        return { ok: true, json: async () => ({ choices: [{ message: { content } }] }) }
+      })
+      
+      try {
+        messageListener(
+          { action: 'translate', mode: 'inplace' },
+          { tab: { id: 1 } },
+          sendResponse
+        )
+        
+        await vi.waitFor(() => expect(sendResponse).toHaveBeenCalledWith({ status: 'scheduled' }))
+        // The rate limiter spaces the second request out
+        await vi.waitFor(() => expect(document.querySelector('a')!.getAttribute('title')).toBe('設定を開く'), { timeout: 3000 })
+        
+        const link = document.querySelector('a')!
+        expect(document.querySelector('p')!.textContent).toBe('先にガイドを読む')
+        expect(link.getAttribute('data-original-attr-title')).toBe('Open settings')
+        expect(global.fetch).toHaveBeenCalledTimes(2)
+      } finally {
+        messageListener({ action: 'restore' }, { tab: { id: 1 } }, vi.fn())
+        delete (global as any).IntersectionObserver
+      }
+    })
+    
+    it('should apply the site include rule in the reader view', async () => {
+      await import('../src/content')
+      
+      const sendResponse = vi.fn()
+      const sentence = 'The committee reviewed the proposal in detail and agreed to continue the work next year, '
+      document.body.innerHTML = `<article>
+        <p class="lead">Lead paragraph. ${sentence.repeat(3)}</p>
+        ${[1, 2].map(n => `<p>Body paragraph ${n}. ${sentence.repeat(3)}</p>`).join('')}
+      </article>`
+      
+      vi.mocked(chrome.storage.local.get).mockImplementation(((_keys: string[], callback: (items: object) => void) => {
+        callback({
+          apiEndpoint: 'https://api.openai.com/v1/chat/completions',
+          apiKey: 'test-key',
+          model: 'gpt-3.5-turbo',
+          targetLanguage: 'ja',
+          readabilityMode: true,
+          siteSelectors: { [location.hostname]: { include: '.lead' } }
+        })
+      }) as any)
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({ choices: [{ message: { content: '翻訳' } }] })
+      })
+      
+      try {
+        messageListener({ action: 'translate' }, { tab: { id: 1 } }, sendResponse)
+        
+        await vi.waitFor(() => expect(sendResponse).toHaveBeenCalledWith({ status: 'completed' }), { timeout: 3000 })
+        
+        const requested = vi.mocked(global.fetch).mock.calls.map(([, init]) => (init as RequestInit).body as string).join('')
+        expect(document.querySelectorAll('.ai-translation-overlay p')).toHaveLength(3)
+        expect(document.querySelector('.ai-translation-overlay .lead')!.textContent).toBe('翻訳')
+        expect(requested).not.toContain('Body paragraph')
+      } finally {
+        messageListener({ action: 'restore' }, { tab: { id: 1 } }, vi.fn())
+      }
+    })
+    
+    it('should translate the selected text into a card', async () => {
+      await import('../src/content')
+      
+      const sendResponse = vi.fn()
+      vi.mocked(chrome.storage.local.get).mockImplementation(((_keys: string[], callback: (items: object) => void) => {
+        callback({
+          apiEndpoint: 'https://api.openai.com/v1/chat/completions',
+          apiKey: 'test-key',
+          model: 'gpt-3.5-turbo',
+          targetLanguage: 'ja'
+        })
+      }) as any)
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({ choices: [{ message: { content: '選択されたテキスト' } }] })
+      })
+      
+      const result = messageListener(
+        { action: 'translateSelection', text: 'Selected text' },
+        { tab: { id: 1 } },
+        sendResponse
+      )
+      
+      expect(result).toBe(true)
+      // The rate limiter may still be spacing requests after the previous test
+      await vi.waitFor(() => expect(sendResponse).toHaveBeenCalledWith({ status: 'completed' }), { timeout: 3000 })
+      
+      const body = document.querySelector('.ai-translation-selection-card__body')
+      expect(body?.textContent).toBe('選択されたテキスト')
+      expect(JSON.parse(vi.mocked(global.fetch).mock.calls[0][1]!.body as string).messages[1].content).toContain('Selected text')
+    })
+    
     it('should handle restore action', async () => {
       await import('../src/content')
       
@@ -89,7 +244,41 @@ describe('Content Script', () => {
       // Should respond with restored status (overlay close)
       expect(sendResponse).toHaveBeenCalledWith({ status: 'restored' })
     })
-
+    
+    it('should restore in-place translations and toggle them without the API', async () => {
+      await import('../src/content')
+      
+      const sendResponse = vi.fn()
+      document.body.innerHTML = '<p data-original-html="Hello world" data-translated="true">こんにちは世界</p>'
+      const paragraph = document.querySelector('p')!
+      
+      messageListener({ action: 'toggleOriginal' }, { tab: { id: 1 } }, sendResponse)
+      expect(sendResponse).toHaveBeenCalledWith({ status: 'toggled', showingOriginal: true })
+      expect(paragraph.textContent).toBe('Hello world')
+      
+      messageListener({ action: 'toggleOriginal' }, { tab: { id: 1 } }, sendResponse)
+      expect(paragraph.textContent).toBe('こんにちは世界')
+      
+      messageListener({ action: 'restore' }, { tab: { id: 1 } }, sendResponse)
+      expect(paragraph.textContent).toBe('Hello world')
+      expect(paragraph.hasAttribute('data-translated')).toBe(false)
+      expect(paragraph.hasAttribute('data-original-html')).toBe(false)
+    })
+    
+    it('should report segment count mismatches summed over the runs on the page', async () => {
+      await import('../src/content')
+      
+      const sendResponse = vi.fn()
+      messageListener({ action: 'getMismatchStats' }, { tab: { id: 1 } }, sendResponse)
+      
+      expect(sendResponse).toHaveBeenCalledWith({
+        batches: expect.any(Number),
+        mismatches: expect.any(Number),
+        bisectRequests: expect.any(Number),
+        unrecovered: expect.any(Number)
+      })
+    })
+    
     it('should handle unknown actions', async () => {
       await import('../src/content')
       
@@ -105,7 +294,7 @@ describe('Content Script', () => {
       expect(sendResponse).not.toHaveBeenCalled()
     })
   })
-
+  
   describe('Translation state management', () => {
     it('should show translation progress indicator', async () => {
       await import('../src/content')
@@ -130,7 +319,7 @@ describe('Content Script', () => {
       const indicator = document.querySelector('.translation-progress')
       expect(indicator).toBeDefined()
     })
-
+    
     it.skip('should prevent duplicate translations - needs update for overlay mode', async () => {
       // Need to import content module fresh for this test
       vi.resetModules()
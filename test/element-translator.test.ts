@@ -1,5 +1,11 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
-import { translateElement, getTranslatableElements } from '../src/element-translator'
+import {
+  translateElement,
+  getTranslatableElements,
+  getTranslatableAttributes,
+  restoreTranslatedElements,
+  toggleTranslatedElements
+} from '../src/element-translator'
 import { translateText } from '../src/api'
 import { translationCache } from '../src/cache'
 
@@ -131,6 +137,41 @@ describe('Element Translator', () => {
       const liWithContent = liElements.find(el => el.textContent?.includes('List item with link'))
       expect(liWithContent).toBeDefined()
     })
+ 
+    it('should skip content marked translate="no" or notranslate', () => {
+      document.body.innerHTML = `
+        <div translate="no">
+          <p>Product name stays as it is</p>
+          <p translate="yes">This paragraph opts back in</p>
+        </div>
+        <section class="notranslate"><p>Code sample description</p></section>
+        <p>Regular paragraph text</p>
+      `
+
+      const texts = getTranslatableElements().map(el => el.textContent)
+
+      expect(texts).toEqual(['This paragraph opts back in', 'Regular paragraph text'])
+    })
+
+    it('should apply site include and exclude selectors', () => {
+      document.body.innerHTML = `
+        <nav><p>Menu description text</p></nav>
+        <article>
+          <p>Article body paragraph</p>
+          <aside class="related"><p>Related links text</p></aside>
+        </article>
+      `
+
+      const elements = getTranslatableElements(document.body, { include: 'article', exclude: '.related' })
+
+      expect(elements.map(el => el.textContent)).toEqual(['Article body paragraph'])
+    })
+
+    it('should ignore an invalid site selector', () => {
+      document.body.innerHTML = '<p>Paragraph that still gets translated</p>'
+
+      expect(getTranslatableElements(document.body, { exclude: '[[broken' })).toHaveLength(1)
+    })
   })
 
   describe('translateElement', () => {
@@ -206,4 +247,111 @@ describe('Element Translator', () => {
       expect(element.innerHTML).toContain('素晴らしい')
     })
   })
-})
\ No newline at end of file
+
+  describe('getTranslatableAttributes', () => {
+    it('should find attribute values with text', () => {
+      document.head.innerHTML = '<meta name="description" content="A page about translation"><meta name="viewport" content="width=device-width">'
+      document.body.innerHTML = `
+        <img src="a.png" alt="A diagram of the pipeline">
+        <img src="b.png" alt="">
+        <a href="#" title="Open the settings">Settings</a>
+        <button aria-label="Close dialog">✕</button>
+        <input placeholder="Search the docs">
+        <span title="2025">2025</span>
+      `
+
+      const attributes = getTranslatableAttributes()
+
+      expect(attributes.map(({ element, name }) => `${element.tagName}:${name}`)).toEqual([
+        'IMG:alt',
+        'A:title',
+        'BUTTON:aria-label',
+        'INPUT:placeholder',
+        'META:content'
+      ])
+      document.head.innerHTML = ''
+    })
+
+    it('should only look for the configured attributes and skip ones already in progress', () => {
+      document.body.innerHTML = `
+        <img alt="Translated already" data-original-attr-alt="Original">
+        <img alt="Waiting for translation" title="A tooltip">
+      `
+
+      const attributes = getTranslatableAttributes(document.body, ['alt', 'on"click'])
+
+      expect(attributes).toHaveLength(1)
+      expect(attributes[0].element.getAttribute('alt')).toBe('Waiting for translation')
+    })
+  })
+
+  describe('restoreTranslatedElements', () => {
+    it('should put back the original markup and clear translation attributes', () => {
+      document.body.innerHTML = `
+        <p data-original-html="Hello &lt;strong&gt;world&lt;/strong&gt;" data-translated="true">こんにちは<strong>世界</strong></p>
+        <p data-original-html="Failed paragraph" data-translation-failed="true">Failed paragraph</p>
+        <p>Untouched paragraph</p>
+      `
+
+      const restored = restoreTranslatedElements()
+      const paragraphs = document.querySelectorAll('p')
+
+      expect(restored).toBe(2)
+      expect(paragraphs[0].innerHTML).toBe('Hello <strong>world</strong>')
+      expect(paragraphs[1].textContent).toBe('Failed paragraph')
+      expect(paragraphs[2].textContent).toBe('Untouched paragraph')
+      expect(document.querySelector('[data-original-html], [data-translated], [data-translation-failed]')).toBeNull()
+    })
+
+    it('should restore translated attribute values', () => {
+      document.body.innerHTML = '<img alt="パイプラインの図" data-original-attr-alt="A diagram of the pipeline" data-translated-attr-alt="パイプラインの図">'
+
+      restoreTranslatedElements()
+
+      const image = document.querySelector('img')!
+      expect(image.getAttribute('alt')).toBe('A diagram of the pipeline')
+      expect(image.hasAttribute('data-original-attr-alt')).toBe(false)
+      expect(image.hasAttribute('data-translated-attr-alt')).toBe(false)
+    })
+
+    it('should restore elements that are showing the original', () => {
+      document.body.innerHTML = '<p data-original-html="Hello" data-translated="true" data-translated-html="こんにちは">Hello</p>'
+
+      restoreTranslatedElements()
+
+      const paragraph = document.querySelector('p')!
+      expect(paragraph.textContent).toBe('Hello')
+      expect(paragraph.hasAttribute('data-translated-html')).toBe(false)
+    })
+  })
+
+  describe('toggleTranslatedElements', () => {
+    it('should swap between original and translation without calling the API', () => {
+      document.body.innerHTML = `
+        <p data-original-html="Hello &lt;em&gt;world&lt;/em&gt;" data-translated="true">こんにちは<em>世界</em></p>
+        <p>Untouched paragraph</p>
+      `
+      const paragraph = document.querySelector('p')!
+
+      expect(toggleTranslatedElements()).toBe(true)
+      expect(paragraph.innerHTML).toBe('Hello <em>world</em>')
+
+      expect(toggleTranslatedElements()).toBe(false)
+      expect(paragraph.innerHTML).toBe('こんにちは<em>世界</em>')
+      expect(paragraph.hasAttribute('data-translated-html')).toBe(false)
+      expect(document.querySelectorAll('p')[1].textContent).toBe('Untouched paragraph')
+      expect(translateText).not.toHaveBeenCalled()
+    })
+
+    it('should swap translated attribute values too', () => {
+      document.body.innerHTML = '<img alt="パイプラインの図" data-original-attr-alt="A diagram of the pipeline">'
+      const image = document.querySelector('img')!
+
+      expect(toggleTranslatedElements()).toBe(true)
+      expect(image.getAttribute('alt')).toBe('A diagram of the pipeline')
+
+      expect(toggleTranslatedElements()).toBe(false)
+      expect(image.getAttribute('alt')).toBe('パイプラインの図')
+    })
+  })
+})
@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { MutationWatcher } from '../src/mutation-watcher'
+
+describe('MutationWatcher', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    document.body.innerHTML = '<main id="feed"><p>Existing paragraph on the page</p></main>'
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  function appendParagraph(parent: Element, text: string): HTMLParagraphElement {
+    const paragraph = document.createElement('p')
+    paragraph.textContent = text
+    parent.appendChild(paragraph)
+    return paragraph
+  }
+
+  it('should report translatable elements added after the first pass', async () => {
+    const onElements = vi.fn()
+    new MutationWatcher({ onElements }).observe(document.body)
+
+    const feed = document.getElementById('feed')!
+    const first = appendParagraph(feed, 'First loaded comment')
+    const second = appendParagraph(feed, 'Second loaded comment')
+    await vi.advanceTimersByTimeAsync(600)
+
+    expect(onElements).toHaveBeenCalledTimes(1)
+    expect(onElements).toHaveBeenCalledWith([first, second])
+  })
+
+  it('should scan nested content once through its outermost added root', async () => {
+    const onElements = vi.fn()
+    new MutationWatcher({ onElements }).observe(document.body)
+
+    const route = document.createElement('section')
+    document.body.appendChild(route)
+    const heading = document.createElement('h2')
+    heading.textContent = 'New route heading'
+    route.appendChild(heading)
+    const paragraph = appendParagraph(route, 'New route content')
+    await vi.advanceTimersByTimeAsync(600)
+
+    expect(onElements).toHaveBeenCalledWith([heading, paragraph])
+  })
+
+  it('should ignore our own writes into translated elements', async () => {
+    const onElements = vi.fn()
+    new MutationWatcher({ onElements }).observe(document.body)
+
+    const existing = document.querySelector('#feed p')!
+    existing.setAttribute('data-original-html', existing.innerHTML)
+    existing.innerHTML = '<strong>翻訳された段落</strong>'
+    existing.setAttribute('data-translated', 'true')
+    await vi.advanceTimersByTimeAsync(600)
+
+    expect(onElements).not.toHaveBeenCalled()
+  })
+
+  it('should ignore subtrees matching the ignore selector', async () => {
+    const onElements = vi.fn()
+    new MutationWatcher({ onElements, ignoreSelector: '.ai-translation-notice' }).observe(document.body)
+
+    const notice = document.createElement('div')
+    notice.className = 'ai-translation-notice'
+    notice.textContent = 'Translation completed successfully'
+    document.body.appendChild(notice)
+    await vi.advanceTimersByTimeAsync(600)
+
+    expect(onElements).not.toHaveBeenCalled()
+  })
+
+  it('should skip content removed before the debounce fires', async () => {
+    const onElements = vi.fn()
+    new MutationWatcher({ onElements }).observe(document.body)
+
+    const transient = appendParagraph(document.body, 'Loading placeholder text')
+    await vi.advanceTimersByTimeAsync(0)
+    transient.remove()
+    await vi.advanceTimersByTimeAsync(600)
+
+    expect(onElements).not.toHaveBeenCalled()
+  })
+
+  it('should stop watching when the signal aborts', async () => {
+    const onElements = vi.fn()
+    const controller = new AbortController()
+    new MutationWatcher({ onElements, signal: controller.signal }).observe(document.body)
+
+    controller.abort()
+    appendParagraph(document.body, 'Added after restoring the page')
+    await vi.advanceTimersByTimeAsync(600)
+
+    expect(onElements).not.toHaveBeenCalled()
+  })
+})
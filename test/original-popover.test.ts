@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { OriginalPopover } from '../src/original-popover'
+
+describe('OriginalPopover', () => {
+  let popover: OriginalPopover
+  let paragraph: HTMLElement
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    document.body.innerHTML = `
+      <p id="translated" data-original-html="Hello &lt;em&gt;world&lt;/em&gt;" data-translated="true">こんにちは<em>世界</em></p>
+      <p id="plain">Untranslated paragraph</p>
+    `
+    paragraph = document.getElementById('translated')!
+    popover = new OriginalPopover({ hoverDelayMs: 100, longPressMs: 300 })
+    popover.attach(document)
+  })
+
+  afterEach(() => {
+    popover.detach()
+    vi.useRealTimers()
+  })
+
+  function hover(target: Element) {
+    target.dispatchEvent(new MouseEvent('mouseover', { bubbles: true }))
+  }
+
+  function leave(target: Element, relatedTarget: Element | null) {
+    target.dispatchEvent(new MouseEvent('mouseout', { bubbles: true, relatedTarget }))
+  }
+
+  function getPopover(): HTMLElement | null {
+    return document.querySelector('.ai-translation-popover')
+  }
+
+  it('should show the original markup after hovering a translated paragraph', () => {
+    hover(paragraph.querySelector('em')!)
+    expect(getPopover()).toBeNull()
+
+    vi.advanceTimersByTime(100)
+
+    const content = getPopover()?.querySelector('.ai-translation-popover__content')
+    expect(content?.innerHTML).toBe('Hello <em>world</em>')
+  })
+
+  it('should ignore paragraphs that are not translated', () => {
+    hover(document.getElementById('plain')!)
+    vi.advanceTimersByTime(100)
+
+    expect(getPopover()).toBeNull()
+  })
+
+  it('should stay open while the pointer moves onto the popover and close when it leaves', () => {
+    hover(paragraph)
+    vi.advanceTimersByTime(100)
+    const element = getPopover()!
+
+    leave(paragraph, element.querySelector('.ai-translation-popover__copy'))
+    expect(getPopover()).not.toBeNull()
+
+    leave(element, document.getElementById('plain'))
+    vi.advanceTimersByTime(300)
+    expect(getPopover()).toBeNull()
+  })
+
+  it('should stay open while the pointer crosses the gap below the paragraph', () => {
+    hover(paragraph)
+    vi.advanceTimersByTime(100)
+    const element = getPopover()!
+
+    // The gap is the page body, not the popover
+    leave(paragraph, document.body)
+    vi.advanceTimersByTime(150)
+    expect(getPopover()).not.toBeNull()
+
+    hover(element.querySelector('.ai-translation-popover__pin')!)
+    vi.advanceTimersByTime(300)
+    expect(getPopover()).toBe(element)
+  })
+
+  it('should close when the pointer does not reach the popover in time', () => {
+    hover(paragraph)
+    vi.advanceTimersByTime(100)
+
+    leave(paragraph, document.body)
+    vi.advanceTimersByTime(299)
+    expect(getPopover()).not.toBeNull()
+
+    vi.advanceTimersByTime(1)
+    expect(getPopover()).toBeNull()
+  })
+
+  it('should stay open when pinned with the keyboard shortcut', () => {
+    hover(paragraph)
+    vi.advanceTimersByTime(100)
+
+    document.dispatchEvent(new KeyboardEvent('keydown', { altKey: true, code: 'KeyO', bubbles: true }))
+    leave(paragraph, document.getElementById('plain'))
+
+    expect(getPopover()?.classList.contains('ai-translation-popover--pinned')).toBe(true)
+    expect(getPopover()?.querySelector('.ai-translation-popover__pin')?.textContent).toBe('Unpin')
+
+    document.dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape', bubbles: true }))
+    expect(getPopover()).toBeNull()
+  })
+
+  it('should open pinned on a long press', () => {
+    paragraph.dispatchEvent(new Event('touchstart', { bubbles: true }))
+    vi.advanceTimersByTime(300)
+
+    expect(getPopover()?.classList.contains('ai-translation-popover--pinned')).toBe(true)
+  })
+
+  it('should copy the original as plain text', async () => {
+    const writeText = vi.fn().mockResolvedValue(undefined)
+    Object.defineProperty(navigator, 'clipboard', { value: { writeText }, configurable: true })
+
+    popover.show(paragraph)
+    getPopover()!.querySelector<HTMLButtonElement>('.ai-translation-popover__copy')!.click()
+    await vi.advanceTimersByTimeAsync(0)
+
+    expect(writeText).toHaveBeenCalledWith('Hello world')
+    expect(getPopover()?.querySelector('.ai-translation-popover__copy')?.textContent).toBe('Copied')
+  })
+})
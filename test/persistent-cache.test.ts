@@ -0,0 +1,248 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { IDBFactory } from 'fake-indexeddb'
+import { IndexedDBCacheStore, RuntimeCacheStore, handleCacheMessage, ManagedCacheStore } from '../src/persistent-cache'
+
+describe('Persistent cache', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('IndexedDBCacheStore', () => {
+    // Two-character keys with four-character texts come to 20 bytes per entry
+    function entry(timestamp: number, domain?: string) {
+      return { sourceText: 'aaaa', translatedText: 'bbbb', timestamp, domain }
+    }
+
+    beforeEach(() => {
+      globalThis.indexedDB = new IDBFactory()
+    })
+
+    afterEach(() => {
+      delete (globalThis as { indexedDB?: IDBFactory }).indexedDB
+    })
+
+    it('should store entries and count hits and misses', async () => {
+      const store = new IndexedDBCacheStore()
+
+      await store.set('k1', entry(1, 'example.com'))
+
+      expect(await store.get('k1')).toMatchObject({ sourceText: 'aaaa', translatedText: 'bbbb', domain: 'example.com' })
+      expect(await store.get('k2')).toBeNull()
+      expect(await store.getStats()).toMatchObject({ entries: 1, hits: 1, misses: 1 })
+    })
+
+    it('should keep the byte limit when writes run concurrently', async () => {
+      const store = new IndexedDBCacheStore(100)
+
+      await Promise.all(Array.from({ length: 10 }, (_, index) => store.set(`k${index}`, entry(index))))
+
+      const stats = await store.getStats()
+      expect(stats.bytes).toBeLessThanOrEqual(100)
+      expect(stats.entries).toBe(5)
+    })
+
+    it('should evict the least recently used entries first', async () => {
+      let now = 100
+      vi.spyOn(Date, 'now').mockImplementation(() => now++)
+      const store = new IndexedDBCacheStore(60)
+      await store.set('k1', entry(1))
+      await store.set('k2', entry(2))
+      await store.set('k3', entry(3))
+
+      // Reading k1 makes k2 the least recently used
+      await store.get('k1')
+      await store.set('k4', entry(4))
+
+      expect(await store.get('k2')).toBeNull()
+      expect(await store.get('k1')).not.toBeNull()
+      expect(await store.get('k4')).not.toBeNull()
+    })
+
+    it('should keep the creation time when an entry is read', async () => {
+      const store = new IndexedDBCacheStore()
+      await store.set('k1', entry(1))
+      await store.set('k2', entry(5))
+
+      await store.get('k1')
+
+      expect(await store.exportEntries()).toEqual([
+        { key: 'k1', ...entry(1) },
+        { key: 'k2', ...entry(5) }
+      ])
+      // Purging by age goes by when the translation was made, not when it was last used
+      expect(await store.purgeOlderThan(3)).toBe(1)
+      expect(await store.get('k1')).toBeNull()
+    })
+
+    it('should keep lookup counters across service worker restarts', async () => {
+      const store = new IndexedDBCacheStore()
+      await store.set('k1', entry(1))
+      await store.get('k1')
+      await store.get('k2')
+      await store.recordHits(3)
+
+      const restarted = new IndexedDBCacheStore()
+
+      expect(await restarted.getStats()).toMatchObject({ hits: 4, misses: 1 })
+    })
+
+    it('should carry entries over from the first database version', async () => {
+      const open = indexedDB.open('ai-translation-cache', 1)
+      open.onupgradeneeded = () => {
+        const store = open.result.createObjectStore('translations', { keyPath: 'key' })
+        store.createIndex('timestamp', 'timestamp')
+        store.put({ key: 'k1', ...entry(7), bytes: 20 })
+      }
+      await new Promise(resolve => { open.onsuccess = resolve })
+      open.result.close()
+
+      const store = new IndexedDBCacheStore()
+
+      expect(await store.get('k1')).toMatchObject({ translatedText: 'bbbb', timestamp: 7 })
+      expect(await store.getStats()).toMatchObject({ entries: 1, bytes: 20, hits: 1 })
+    })
+
+    it('should purge by domain and by age', async () => {
+      const store = new IndexedDBCacheStore()
+      await store.set('k1', entry(1, 'example.com'))
+      await store.set('k2', entry(2, 'example.org'))
+      await store.set('k3', entry(3, 'example.com'))
+
+      expect(await store.purgeDomain('example.com')).toBe(2)
+      expect(await store.purgeOlderThan(3)).toBe(1)
+      expect(await store.getStats()).toMatchObject({ entries: 0, bytes: 0 })
+    })
+
+    it('should import what it exported', async () => {
+      const source = new IndexedDBCacheStore()
+      await source.set('k1', entry(1, 'example.com'))
+      await source.set('k2', entry(2))
+      const exported = await source.exportEntries()
+
+      globalThis.indexedDB = new IDBFactory()
+      const target = new IndexedDBCacheStore()
+
+      expect(await target.importEntries(exported)).toBe(2)
+      expect(await target.exportEntries()).toEqual(exported)
+    })
+  })
+
+  describe('RuntimeCacheStore', () => {
+    it('should look entries up through the background', async () => {
+      const entry = { sourceText: 'Hello', translatedText: 'こんにちは', timestamp: 1 }
+      vi.mocked(chrome.runtime.sendMessage).mockResolvedValue({ entry } as any)
+
+      const store = new RuntimeCacheStore()
+
+      expect(await store.get('abc')).toEqual(entry)
+      expect(chrome.runtime.sendMessage).toHaveBeenCalledWith({ action: 'cacheGet', key: 'abc' })
+    })
+
+    it('should treat a missing response as a miss', async () => {
+      vi.mocked(chrome.runtime.sendMessage).mockResolvedValue(undefined as any)
+
+      expect(await new RuntimeCacheStore().get('abc')).toBeNull()
+    })
+
+    it('should report memory cache hits to the background together', async () => {
+      vi.useFakeTimers()
+      vi.mocked(chrome.runtime.sendMessage).mockResolvedValue({ status: 'ok' } as any)
+      const store = new RuntimeCacheStore()
+
+      store.recordHit()
+      store.recordHit()
+      vi.advanceTimersByTime(1000)
+      vi.useRealTimers()
+
+      expect(chrome.runtime.sendMessage).toHaveBeenCalledTimes(1)
+      expect(chrome.runtime.sendMessage).toHaveBeenCalledWith({ action: 'cacheRecordHits', count: 2 })
+    })
+
+    it('should send writes to the background', async () => {
+      vi.mocked(chrome.runtime.sendMessage).mockResolvedValue({ status: 'ok' } as any)
+      const entry = { sourceText: 'Hello', translatedText: 'こんにちは', timestamp: 1 }
+
+      await new RuntimeCacheStore().set('abc', entry)
+
+      expect(chrome.runtime.sendMessage).toHaveBeenCalledWith({ action: 'cacheSet', key: 'abc', entry })
+    })
+  })
+
+  describe('handleCacheMessage', () => {
+    function createStore(): ManagedCacheStore {
+      return {
+        get: vi.fn().mockResolvedValue({ sourceText: 'Hello', translatedText: 'こんにちは', timestamp: 1 }),
+        set: vi.fn().mockResolvedValue(undefined),
+        clear: vi.fn().mockResolvedValue(undefined),
+        getStats: vi.fn().mockResolvedValue({ entries: 1, bytes: 20, hits: 0, misses: 0, topDomains: [] }),
+        purgeDomain: vi.fn().mockResolvedValue(2),
+        purgeOlderThan: vi.fn().mockResolvedValue(3),
+        exportEntries: vi.fn().mockResolvedValue([]),
+        importEntries: vi.fn(async (entries: unknown[]) => entries.length),
+        recordHits: vi.fn().mockResolvedValue(undefined)
+      }
+    }
+
+    it('should answer lookups from the store', async () => {
+      const store = createStore()
+      const sendResponse = vi.fn()
+
+      const handled = handleCacheMessage({ action: 'cacheGet', key: 'abc' }, store, sendResponse)
+      await vi.waitFor(() => expect(sendResponse).toHaveBeenCalled())
+
+      expect(handled).toBe(true)
+      expect(store.get).toHaveBeenCalledWith('abc')
+      expect(sendResponse).toHaveBeenCalledWith({ entry: { sourceText: 'Hello', translatedText: 'こんにちは', timestamp: 1 } })
+    })
+
+    it('should report store errors to the sender', async () => {
+      const store = createStore()
+      vi.mocked(store.set).mockRejectedValue(new Error('Quota exceeded'))
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+      const sendResponse = vi.fn()
+
+      handleCacheMessage({ action: 'cacheSet', key: 'abc', entry: { sourceText: 'x', translatedText: 'x', timestamp: 1 } }, store, sendResponse)
+      await vi.waitFor(() => expect(sendResponse).toHaveBeenCalled())
+
+      expect(sendResponse).toHaveBeenCalledWith({ error: 'Quota exceeded' })
+    })
+
+    it('should purge by domain and age', async () => {
+      const store = createStore()
+      const sendResponse = vi.fn()
+
+      handleCacheMessage({ action: 'cachePurgeDomain', domain: 'example.com' }, store, sendResponse)
+      handleCacheMessage({ action: 'cachePurgeAge', olderThan: 1000 }, store, sendResponse)
+      await vi.waitFor(() => expect(sendResponse).toHaveBeenCalledTimes(2))
+
+      expect(store.purgeDomain).toHaveBeenCalledWith('example.com')
+      expect(store.purgeOlderThan).toHaveBeenCalledWith(1000)
+      expect(sendResponse).toHaveBeenCalledWith({ removed: 2 })
+      expect(sendResponse).toHaveBeenCalledWith({ removed: 3 })
+    })
+
+    it('should only import well-formed entries', async () => {
+      const store = createStore()
+      const sendResponse = vi.fn()
+      const valid = { key: 'abc', sourceText: 'Hello', translatedText: 'こんにちは', timestamp: 1, domain: 'example.com' }
+
+      handleCacheMessage({
+        action: 'cacheImport',
+        entries: [valid, { key: 'def', translatedText: 'missing source' }, 'not an entry', null]
+      }, store, sendResponse)
+      await vi.waitFor(() => expect(sendResponse).toHaveBeenCalled())
+
+      expect(store.importEntries).toHaveBeenCalledWith([valid])
+      expect(sendResponse).toHaveBeenCalledWith({ imported: 1 })
+    })
+
+    it('should ignore other messages', () => {
+      const sendResponse = vi.fn()
+
+      const handled = handleCacheMessage({ action: 'translate' } as any, createStore(), sendResponse)
+
+      expect(handled).toBe(false)
+      expect(sendResponse).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -12,41 +12,92 @@ global.chrome = {
     query: vi.fn(),
     sendMessage: vi.fn(),
   },
+  runtime: {
+    sendMessage: vi.fn(),
+  },
 } as any
 
 // Mock DOM elements
 const mockElements = {
+  apiProvider: { value: '', addEventListener: vi.fn() } as any,
   apiEndpoint: { value: '', addEventListener: vi.fn() } as any,
   apiKey: { value: '', addEventListener: vi.fn() } as any,
   model: { value: '', addEventListener: vi.fn() } as any,
   targetLanguage: { value: 'Japanese', addEventListener: vi.fn() } as any,
   apiRps: { value: '0.9', addEventListener: vi.fn() } as any,
+  adaptiveRateLimit: { checked: false, addEventListener: vi.fn() } as any,
+  tokensPerMinute: { value: '0', addEventListener: vi.fn() } as any,
   batchSize: { value: '1000', addEventListener: vi.fn() } as any,
+  maxConcurrentBatches: { value: '3', addEventListener: vi.fn() } as any,
+  batchProtocol: { value: '', addEventListener: vi.fn() } as any,
+  maxAttempts: { value: '3', addEventListener: vi.fn() } as any,
   readabilityMode: { value: 'limited', addEventListener: vi.fn() } as any,
+  viewportTranslation: { checked: true, addEventListener: vi.fn() } as any,
+  liveTranslation: { checked: false, addEventListener: vi.fn() } as any,
+  displayMode: { value: '', addEventListener: vi.fn() } as any,
+  translatedAttributes: { value: '', addEventListener: vi.fn() } as any,
+  siteRulesDomain: { textContent: '' } as any,
+  siteInclude: { value: '', addEventListener: vi.fn() } as any,
+  siteExclude: { value: '', addEventListener: vi.fn() } as any,
+  streaming: { checked: false, addEventListener: vi.fn() } as any,
   charThreshold: { value: '500', addEventListener: vi.fn() } as any,
   charThresholdGroup: { style: { display: 'block' } } as any,
   saveSettings: { addEventListener: vi.fn() } as any,
   translatePage: { addEventListener: vi.fn() } as any,
+  translatePageInplace: { addEventListener: vi.fn() } as any,
   restorePage: { addEventListener: vi.fn() } as any,
+  toggleOriginal: { addEventListener: vi.fn() } as any,
   status: { textContent: '', className: 'status' } as HTMLDivElement,
+  cacheStats: { textContent: '' } as any,
+  cacheDomain: { value: '', addEventListener: vi.fn() } as any,
+  purgeDomain: { addEventListener: vi.fn() } as any,
+  cacheMaxAge: { value: '30', addEventListener: vi.fn() } as any,
+  purgeAge: { addEventListener: vi.fn() } as any,
+  exportCache: { addEventListener: vi.fn() } as any,
+  importCache: { addEventListener: vi.fn() } as any,
+  importCacheFile: { value: '', files: null, addEventListener: vi.fn(), click: vi.fn() } as any,
 }
 
 // Mock document.getElementById
 document.getElementById = vi.fn((id: string) => {
   const map: Record<string, any> = {
+    'api-provider': mockElements.apiProvider,
     'api-endpoint': mockElements.apiEndpoint,
     'api-key': mockElements.apiKey,
     'model': mockElements.model,
     'target-language': mockElements.targetLanguage,
     'api-rps': mockElements.apiRps,
+    'adaptive-rate-limit': mockElements.adaptiveRateLimit,
+    'tokens-per-minute': mockElements.tokensPerMinute,
     'batch-size': mockElements.batchSize,
+    'max-concurrent-batches': mockElements.maxConcurrentBatches,
+    'batch-protocol': mockElements.batchProtocol,
+    'max-attempts': mockElements.maxAttempts,
     'readability-mode': mockElements.readabilityMode,
+    'viewport-translation': mockElements.viewportTranslation,
+    'live-translation': mockElements.liveTranslation,
+    'display-mode': mockElements.displayMode,
+    'translated-attributes': mockElements.translatedAttributes,
+    'site-rules-domain': mockElements.siteRulesDomain,
+    'site-include': mockElements.siteInclude,
+    'site-exclude': mockElements.siteExclude,
+    'streaming': mockElements.streaming,
     'char-threshold': mockElements.charThreshold,
     'char-threshold-group': mockElements.charThresholdGroup,
     'save-settings': mockElements.saveSettings,
     'translate-page': mockElements.translatePage,
+    'translate-page-inplace': mockElements.translatePageInplace,
     'restore-page': mockElements.restorePage,
+    'toggle-original': mockElements.toggleOriginal,
     'status': mockElements.status,
+    'cache-stats': mockElements.cacheStats,
+    'cache-domain': mockElements.cacheDomain,
+    'purge-domain': mockElements.purgeDomain,
+    'cache-max-age': mockElements.cacheMaxAge,
+    'purge-age': mockElements.purgeAge,
+    'export-cache': mockElements.exportCache,
+    'import-cache': mockElements.importCache,
+    'import-cache-file': mockElements.importCacheFile,
   }
   return map[id] || null
 })
@@ -55,6 +106,7 @@ describe('Popup', () => {
   beforeEach(() => {
     vi.clearAllMocks()
     // Reset mock element values
+    mockElements.apiProvider.value = ''
     mockElements.apiEndpoint.value = ''
     mockElements.apiKey.value = ''
     mockElements.model.value = ''
@@ -87,13 +139,25 @@ describe('Popup', () => {
       await new Promise(resolve => setTimeout(resolve, 10))
       
       expect(chrome.storage.local.get).toHaveBeenCalledWith([
+        'apiProvider',
         'apiEndpoint',
         'apiKey',
         'model',
         'targetLanguage',
         'apiRps',
+        'adaptiveRateLimit',
+        'tokensPerMinute',
         'batchSize',
-        'readabilityMode'
+        'maxConcurrentBatches',
+        'batchProtocol',
+        'maxAttempts',
+        'readabilityMode',
+        'viewportTranslation',
+        'liveTranslation',
+        'displayMode',
+        'translatedAttributes',
+        'siteSelectors',
+        'streaming'
       ])
       
       expect(mockElements.apiEndpoint.value).toBe('https://custom.api.com')
@@ -132,13 +196,25 @@ describe('Popup', () => {
       await new Promise(resolve => setTimeout(resolve, 10))
       
       expect(chrome.storage.local.set).toHaveBeenCalledWith({
+        apiProvider: 'openai',
         apiEndpoint: 'https://new.api.com',
         apiKey: 'new-key',
         model: 'gpt-4',
         targetLanguage: 'Japanese',
         apiRps: 0.9,
+        adaptiveRateLimit: false,
+        tokensPerMinute: 0,
         batchSize: 1000,
-        readabilityMode: true
+        maxConcurrentBatches: 3,
+        batchProtocol: 'delimiter',
+        maxAttempts: 3,
+        readabilityMode: true,
+        viewportTranslation: true,
+        liveTranslation: false,
+        displayMode: 'translation',
+        translatedAttributes: ['alt', 'title', 'aria-label', 'placeholder', 'content'],
+        siteSelectors: {},
+        streaming: false
       })
       
       expect(mockElements.status.className).toContain('success')
@@ -158,15 +234,43 @@ describe('Popup', () => {
       await new Promise(resolve => setTimeout(resolve, 10))
       
       expect(chrome.storage.local.set).toHaveBeenCalledWith({
+        apiProvider: 'openai',
         apiEndpoint: 'https://api.openai.com/v1/chat/completions',
         apiKey: 'some-key',
         model: 'gpt-4.1-nano',
         targetLanguage: 'ja',
         apiRps: 0.9,
+        adaptiveRateLimit: false,
+        tokensPerMinute: 0,
         batchSize: 1000,
-        readabilityMode: true
+        maxConcurrentBatches: 3,
+        batchProtocol: 'delimiter',
+        maxAttempts: 3,
+        readabilityMode: true,
+        viewportTranslation: true,
+        liveTranslation: false,
+        displayMode: 'translation',
+        translatedAttributes: ['alt', 'title', 'aria-label', 'placeholder', 'content'],
+        siteSelectors: {},
+        streaming: false
       })
     })
+
+    it('should default the endpoint to the selected provider', async () => {
+      await import('../src/popup')
+      
+      mockElements.apiProvider.value = 'anthropic'
+      mockElements.apiEndpoint.value = ''
+      
+      mockElements.saveSettings.click?.()
+      
+      await new Promise(resolve => setTimeout(resolve, 10))
+      
+      expect(chrome.storage.local.set).toHaveBeenCalledWith(expect.objectContaining({
+        apiProvider: 'anthropic',
+        apiEndpoint: 'https://api.anthropic.com/v1/messages'
+      }))
+    })
   })
 
   describe('Translation actions', () => {
@@ -193,6 +297,24 @@ describe('Popup', () => {
       expect(window.close).toHaveBeenCalled()
     })
 
+    it('should request in-place translation from the second button', async () => {
+      vi.mocked(chrome.tabs.query).mockResolvedValue([{ id: 123 }] as any)
+      
+      await import('../src/popup')
+      
+      window.close = vi.fn()
+      
+      mockElements.translatePageInplace.click?.()
+      
+      await new Promise(resolve => setTimeout(resolve, 10))
+      
+      expect(chrome.tabs.sendMessage).toHaveBeenCalledWith(123, {
+        action: 'translate',
+        mode: 'inplace'
+      })
+      expect(window.close).toHaveBeenCalled()
+    })
+
     it('should send restore message when restore button is clicked', async () => {
       vi.mocked(chrome.tabs.query).mockResolvedValue([{ id: 456 }] as any)
       
@@ -211,5 +333,81 @@ describe('Popup', () => {
       expect(mockElements.status.textContent).toContain('Page restored')
       expect(window.close).toHaveBeenCalled()
     })
+
+    it('should ask the page to swap original and translation', async () => {
+      vi.mocked(chrome.tabs.query).mockResolvedValue([{ id: 789 }] as any)
+      
+      await import('../src/popup')
+      
+      window.close = vi.fn()
+      
+      mockElements.toggleOriginal.click?.()
+      
+      await new Promise(resolve => setTimeout(resolve, 10))
+      
+      expect(chrome.tabs.sendMessage).toHaveBeenCalledWith(789, {
+        action: 'toggleOriginal'
+      })
+      expect(window.close).toHaveBeenCalled()
+    })
+  })
+
+  describe('Cache panel', () => {
+    const stats = {
+      entries: 12,
+      bytes: 2048,
+      hits: 3,
+      misses: 1,
+      topDomains: [{ domain: 'en.wikipedia.org', entries: 10, bytes: 1800 }]
+    }
+
+    beforeEach(() => {
+      vi.mocked(chrome.runtime.sendMessage).mockImplementation((async (message: { action: string }) => {
+        if (message.action === 'cacheStats') return { stats }
+        if (message.action === 'cachePurgeDomain' || message.action === 'cachePurgeAge') return { removed: 4 }
+        return undefined
+      }) as any)
+    })
+
+    it('should purge a site and refresh the statistics', async () => {
+      await import('../src/popup')
+      
+      mockElements.cacheDomain.value = ' en.wikipedia.org '
+      mockElements.purgeDomain.click?.()
+      
+      await new Promise(resolve => setTimeout(resolve, 10))
+      
+      expect(chrome.runtime.sendMessage).toHaveBeenCalledWith({ action: 'cachePurgeDomain', domain: 'en.wikipedia.org' })
+      expect(mockElements.status.textContent).toBe('Removed 4 cached translations')
+      expect(mockElements.cacheStats.textContent).toContain('12 entries, 2.0 KB, hit rate 75%')
+      expect(mockElements.cacheStats.textContent).toContain('en.wikipedia.org: 10 entries')
+    })
+
+    it('should require a site before purging', async () => {
+      await import('../src/popup')
+      
+      mockElements.cacheDomain.value = ''
+      mockElements.purgeDomain.click?.()
+      
+      await new Promise(resolve => setTimeout(resolve, 10))
+      
+      expect(chrome.runtime.sendMessage).not.toHaveBeenCalledWith(expect.objectContaining({ action: 'cachePurgeDomain' }))
+      expect(mockElements.status.className).toContain('error')
+    })
+
+    it('should purge entries older than the given number of days', async () => {
+      vi.spyOn(Date, 'now').mockReturnValue(10 * 24 * 60 * 60 * 1000)
+      await import('../src/popup')
+      
+      mockElements.cacheMaxAge.value = '7'
+      mockElements.purgeAge.click?.()
+      
+      await new Promise(resolve => setTimeout(resolve, 10))
+      
+      expect(chrome.runtime.sendMessage).toHaveBeenCalledWith({
+        action: 'cachePurgeAge',
+        olderThan: 3 * 24 * 60 * 60 * 1000
+      })
+    })
   })
 })
\ No newline at end of file
@@ -0,0 +1,163 @@
+import { describe, it, expect } from 'vitest'
+import { getProviderAdapter, ProviderRequestParams, TRANSLATION_BATCH_SCHEMA } from '../src/providers'
+
+describe('Provider adapters', () => {
+  const params: ProviderRequestParams = {
+    apiEndpoint: 'https://api.example.com/v1/chat',
+    apiKey: 'test-key',
+    model: 'test-model',
+    systemPrompt: 'Translate to Japanese',
+    text: 'Hello',
+    stream: false
+  }
+
+  describe('getProviderAdapter', () => {
+    it('should fall back to the OpenAI adapter for unknown ids', () => {
+      expect(getProviderAdapter(undefined).id).toBe('openai')
+      expect(getProviderAdapter('unknown').id).toBe('openai')
+    })
+  })
+
+  describe('openai', () => {
+    const adapter = getProviderAdapter('openai')
+
+    it('should build a chat completions request with a bearer token', () => {
+      const request = adapter.buildRequest(params)
+
+      expect(request.url).toBe('https://api.example.com/v1/chat')
+      expect(request.headers['Authorization']).toBe('Bearer test-key')
+      expect(request.body).toEqual({
+        model: 'test-model',
+        messages: [
+          { role: 'system', content: 'Translate to Japanese' },
+          { role: 'user', content: 'Hello' }
+        ],
+        temperature: 0.3,
+        max_tokens: 4000
+      })
+    })
+
+    it('should request a JSON schema response for the JSON batch protocol', () => {
+      const request = adapter.buildRequest({ ...params, json: true })
+
+      expect(request.body.response_format).toEqual({
+        type: 'json_schema',
+        json_schema: { name: 'translations', strict: true, schema: TRANSLATION_BATCH_SCHEMA }
+      })
+      expect(adapter.buildRequest(params).body.response_format).toBeUndefined()
+    })
+
+    it('should parse responses and stream deltas', () => {
+      expect(adapter.parseResponse({ choices: [{ message: { content: 'こんにちは' } }] })).toBe('こんにちは')
+      expect(adapter.parseStreamEvent({ choices: [{ delta: { content: 'こん' } }] })).toBe('こん')
+      expect(adapter.parseStreamEvent({ choices: [{ delta: {} }] })).toBe('')
+    })
+  })
+
+  describe('anthropic', () => {
+    const adapter = getProviderAdapter('anthropic')
+
+    it('should send the system prompt separately with an api key header', () => {
+      const request = adapter.buildRequest({ ...params, stream: true })
+
+      expect(request.headers['x-api-key']).toBe('test-key')
+      expect(request.headers['anthropic-version']).toBeDefined()
+      expect(request.headers['Authorization']).toBeUndefined()
+      expect(request.body.system).toBe('Translate to Japanese')
+      expect(request.body.messages).toEqual([{ role: 'user', content: 'Hello' }])
+      expect(request.body.stream).toBe(true)
+    })
+
+    it('should join text content blocks', () => {
+      const data = {
+        content: [
+          { type: 'text', text: 'こんに' },
+          { type: 'text', text: 'ちは' }
+        ]
+      }
+      expect(adapter.parseResponse(data)).toBe('こんにちは')
+    })
+
+    it('should only read text deltas from stream events', () => {
+      expect(adapter.parseStreamEvent({ type: 'content_block_delta', delta: { type: 'text_delta', text: 'こん' } })).toBe('こん')
+      expect(adapter.parseStreamEvent({ type: 'message_start' })).toBe('')
+    })
+  })
+
+  describe('gemini', () => {
+    const adapter = getProviderAdapter('gemini')
+    const geminiParams = {
+      ...params,
+      apiEndpoint: 'https://generativelanguage.googleapis.com/v1beta/models/{model}:generateContent'
+    }
+
+    it('should substitute the model into the endpoint', () => {
+      const request = adapter.buildRequest(geminiParams)
+
+      expect(request.url).toBe('https://generativelanguage.googleapis.com/v1beta/models/test-model:generateContent')
+      expect(request.headers['x-goog-api-key']).toBe('test-key')
+      expect(request.body.systemInstruction).toEqual({ parts: [{ text: 'Translate to Japanese' }] })
+      expect(request.body.contents).toEqual([{ role: 'user', parts: [{ text: 'Hello' }] }])
+    })
+
+    it('should switch to the SSE streaming endpoint', () => {
+      const request = adapter.buildRequest({ ...geminiParams, stream: true })
+
+      expect(request.url).toBe('https://generativelanguage.googleapis.com/v1beta/models/test-model:streamGenerateContent?alt=sse')
+    })
+
+    it('should ask for a JSON response with a schema', () => {
+      const request = adapter.buildRequest({ ...geminiParams, json: true })
+
+      expect(request.body.generationConfig).toMatchObject({ responseMimeType: 'application/json' })
+      expect(request.body.generationConfig).toHaveProperty('responseSchema')
+    })
+
+    it('should parse candidate parts', () => {
+      const data = { candidates: [{ content: { parts: [{ text: 'こんにちは' }] } }] }
+      expect(adapter.parseResponse(data)).toBe('こんにちは')
+      expect(() => adapter.parseResponse({ candidates: [] })).toThrow()
+    })
+  })
+
+  describe('ollama', () => {
+    const adapter = getProviderAdapter('ollama')
+
+    it('should always send the stream flag and omit auth without a key', () => {
+      const request = adapter.buildRequest({ ...params, apiKey: '' })
+
+      expect(request.body.stream).toBe(false)
+      expect(request.headers['Authorization']).toBeUndefined()
+      expect(adapter.streamFormat).toBe('ndjson')
+    })
+
+    it('should pass the batch schema as the format', () => {
+      expect(adapter.buildRequest({ ...params, json: true }).body.format).toEqual(TRANSLATION_BATCH_SCHEMA)
+    })
+
+    it('should parse the native chat message', () => {
+      expect(adapter.parseResponse({ message: { role: 'assistant', content: 'こんにちは' } })).toBe('こんにちは')
+      expect(adapter.parseStreamEvent({ message: { content: 'こん' }, done: false })).toBe('こん')
+    })
+  })
+
+  describe('azure', () => {
+    const adapter = getProviderAdapter('azure')
+
+    it('should use the api-key header and deployment URL', () => {
+      const request = adapter.buildRequest({
+        ...params,
+        apiEndpoint: 'https://res.openai.azure.com/openai/deployments/{deployment}/chat/completions?api-version=2024-06-01'
+      })
+
+      expect(request.url).toBe('https://res.openai.azure.com/openai/deployments/test-model/chat/completions?api-version=2024-06-01')
+      expect(request.headers['api-key']).toBe('test-key')
+      expect(request.headers['Authorization']).toBeUndefined()
+      expect(request.body.model).toBeUndefined()
+    })
+
+    it('should use JSON mode for the JSON batch protocol', () => {
+      expect(adapter.buildRequest({ ...params, json: true }).body.response_format).toEqual({ type: 'json_object' })
+    })
+  })
+})
@@ -89,4 +89,192 @@ describe('RateLimiter', () => {
     await vi.advanceTimersByTimeAsync(2000)
     expect(mockFn).toHaveBeenCalledTimes(1)
   })
-})
\ No newline at end of file
+
+  describe('adaptive mode', () => {
+    it('should halve the rate when throttled', async () => {
+      const rateLimiter = new RateLimiter(4, { adaptive: true })
+      const mockFn = vi.fn().mockResolvedValue('result')
+
+      rateLimiter.reportThrottle()
+      expect(rateLimiter.getEffectiveRPS()).toBe(2)
+
+      const promises = [rateLimiter.execute(mockFn), rateLimiter.execute(mockFn)]
+
+      await vi.advanceTimersByTimeAsync(50)
+      expect(mockFn).toHaveBeenCalledTimes(1)
+
+      // 2 RPS means the second request waits 500ms instead of 250ms
+      await vi.advanceTimersByTimeAsync(300)
+      expect(mockFn).toHaveBeenCalledTimes(1)
+
+      await vi.advanceTimersByTimeAsync(200)
+      expect(mockFn).toHaveBeenCalledTimes(2)
+
+      await Promise.all(promises)
+    })
+
+    it('should only back off once for throttles reported within one interval', async () => {
+      const rateLimiter = new RateLimiter(4, { adaptive: true })
+
+      rateLimiter.reportThrottle()
+      rateLimiter.reportThrottle()
+      expect(rateLimiter.getEffectiveRPS()).toBe(2)
+
+      await vi.advanceTimersByTimeAsync(500)
+      rateLimiter.reportThrottle()
+      expect(rateLimiter.getEffectiveRPS()).toBe(1)
+    })
+
+    it('should not drop below the minimum rate', async () => {
+      const rateLimiter = new RateLimiter(1, { adaptive: true, minRps: 0.5 })
+
+      for (let i = 0; i < 5; i++) {
+        rateLimiter.reportThrottle()
+        await vi.advanceTimersByTimeAsync(5000)
+      }
+
+      expect(rateLimiter.getEffectiveRPS()).toBe(0.5)
+    })
+
+    it('should raise the rate slowly after sustained successes up to the ceiling', () => {
+      const rateLimiter = new RateLimiter(2, { adaptive: true, increaseStep: 0.5, successesBeforeIncrease: 3 })
+
+      rateLimiter.reportThrottle()
+      expect(rateLimiter.getEffectiveRPS()).toBe(1)
+
+      rateLimiter.reportSuccess()
+      rateLimiter.reportSuccess()
+      expect(rateLimiter.getEffectiveRPS()).toBe(1)
+
+      rateLimiter.reportSuccess()
+      expect(rateLimiter.getEffectiveRPS()).toBe(1.5)
+
+      for (let i = 0; i < 30; i++) {
+        rateLimiter.reportSuccess()
+      }
+      expect(rateLimiter.getEffectiveRPS()).toBe(2)
+    })
+
+    it('should reset the success streak when throttled', async () => {
+      const rateLimiter = new RateLimiter(2, { adaptive: true, increaseStep: 0.5, successesBeforeIncrease: 2 })
+
+      rateLimiter.reportThrottle()
+      rateLimiter.reportSuccess()
+      await vi.advanceTimersByTimeAsync(1000)
+      rateLimiter.reportThrottle()
+      rateLimiter.reportSuccess()
+
+      expect(rateLimiter.getEffectiveRPS()).toBe(0.5)
+    })
+
+    it('should treat updateRPS as the new ceiling', () => {
+      const rateLimiter = new RateLimiter(4, { adaptive: true, increaseStep: 1, successesBeforeIncrease: 1 })
+
+      rateLimiter.reportThrottle()
+      rateLimiter.updateRPS(10)
+      expect(rateLimiter.getEffectiveRPS()).toBe(2)
+
+      for (let i = 0; i < 20; i++) {
+        rateLimiter.reportSuccess()
+      }
+      expect(rateLimiter.getEffectiveRPS()).toBe(10)
+
+      rateLimiter.updateRPS(3)
+      expect(rateLimiter.getEffectiveRPS()).toBe(3)
+    })
+
+    it('should ignore feedback when not adaptive', () => {
+      const rateLimiter = new RateLimiter(4)
+
+      rateLimiter.reportThrottle()
+      rateLimiter.reportSuccess()
+
+      expect(rateLimiter.getEffectiveRPS()).toBe(4)
+    })
+  })
+
+  describe('token budget', () => {
+    it('should hold requests that would exceed the tokens per minute', async () => {
+      const rateLimiter = new RateLimiter(10, { tpm: 1000 })
+      const results: number[] = []
+
+      const promises = [
+        rateLimiter.execute(async () => results.push(1), { cost: 600 }),
+        rateLimiter.execute(async () => results.push(2), { cost: 600 })
+      ]
+
+      await vi.advanceTimersByTimeAsync(1000)
+      expect(results).toEqual([1])
+      expect(rateLimiter.getTokensUsed()).toBe(600)
+
+      await vi.advanceTimersByTimeAsync(60000)
+      await Promise.all(promises)
+      expect(results).toEqual([1, 2])
+    })
+
+    it('should let a request larger than the budget run on its own', async () => {
+      const rateLimiter = new RateLimiter(10, { tpm: 1000 })
+
+      const promise = rateLimiter.execute(async () => 'large', { cost: 5000 })
+      await vi.advanceTimersByTimeAsync(100)
+
+      await expect(promise).resolves.toBe('large')
+    })
+
+    it('should not limit tokens when the budget is disabled', async () => {
+      const rateLimiter = new RateLimiter(10)
+      const results: number[] = []
+
+      for (let i = 0; i < 3; i++) {
+        rateLimiter.execute(async () => results.push(i), { cost: 100000 })
+      }
+      await vi.advanceTimersByTimeAsync(500)
+
+      expect(results).toEqual([0, 1, 2])
+    })
+
+    it('should apply an updated budget to queued requests', async () => {
+      const rateLimiter = new RateLimiter(10, { tpm: 500 })
+      const results: number[] = []
+
+      rateLimiter.execute(async () => results.push(1), { cost: 400 })
+      rateLimiter.execute(async () => results.push(2), { cost: 400 })
+      await vi.advanceTimersByTimeAsync(1000)
+      expect(results).toEqual([1])
+
+      rateLimiter.updateTPM(1000)
+      await vi.advanceTimersByTimeAsync(200)
+      expect(results).toEqual([1, 2])
+    })
+  })
+
+  describe('cancellation', () => {
+    it('should reject queued calls when the signal aborts', async () => {
+      const rateLimiter = new RateLimiter(1)
+      const controller = new AbortController()
+      const fn = vi.fn().mockResolvedValue('done')
+
+      const first = rateLimiter.execute(fn)
+      const second = rateLimiter.execute(fn, { signal: controller.signal })
+      const secondResult = expect(second).rejects.toMatchObject({ name: 'AbortError' })
+
+      await vi.advanceTimersByTimeAsync(10)
+      controller.abort()
+      await vi.advanceTimersByTimeAsync(2000)
+
+      await expect(first).resolves.toBe('done')
+      await secondResult
+      expect(fn).toHaveBeenCalledTimes(1)
+    })
+
+    it('should reject immediately when already aborted', async () => {
+      const rateLimiter = new RateLimiter(1)
+      const controller = new AbortController()
+      controller.abort()
+      const fn = vi.fn()
+
+      await expect(rateLimiter.execute(fn, { signal: controller.signal })).rejects.toMatchObject({ name: 'AbortError' })
+      expect(fn).not.toHaveBeenCalled()
+    })
+  })
+})
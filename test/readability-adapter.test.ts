@@ -101,6 +101,20 @@ describe('Readability Adapter', () => {
       })
     })
     
+    it('should keep notranslate and site rule classes in the extracted article', async () => {
+      const { Readability } = await import('@mozilla/readability')
+      
+      ;(Readability as any).mockImplementation(() => ({
+        parse: vi.fn().mockReturnValue(null)
+      }))
+      
+      extractArticleForOverlay(document, ['code-sample'])
+      
+      expect(Readability).toHaveBeenCalledWith(expect.anything(), {
+        classesToPreserve: ['notranslate', 'code-sample']
+      })
+    })
+    
     it('should return null when no article content found', async () => {
       const { Readability } = await import('@mozilla/readability')
       
@@ -0,0 +1,103 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { SelectionCard } from '../src/selection-card'
+
+describe('SelectionCard', () => {
+  let card: SelectionCard
+  let range: Range
+
+  beforeEach(() => {
+    document.body.innerHTML = '<p id="source">Say hello world to everyone</p>'
+    const text = document.getElementById('source')!.firstChild!
+    range = document.createRange()
+    range.setStart(text, 4)
+    range.setEnd(text, 15)
+    // jsdom does not lay out ranges
+    range.getBoundingClientRect = () => ({ top: 100, bottom: 120, left: 40, right: 200 }) as DOMRect
+    card = new SelectionCard()
+  })
+
+  afterEach(() => {
+    card.hide()
+  })
+
+  function getCard(): HTMLElement | null {
+    return document.querySelector('.ai-translation-selection-card')
+  }
+
+  function getButton(name: string): HTMLButtonElement {
+    return getCard()!.querySelector(`.ai-translation-selection-card__${name}`)!
+  }
+
+  it('should show a loading card next to the selection, then the translation', () => {
+    card.show(range)
+
+    expect(getCard()?.textContent).toContain('Translating...')
+    expect(getCard()?.style.top).toBe('128px')
+    expect(getButton('copy').disabled).toBe(true)
+
+    card.setTranslation('こんにちは世界')
+
+    expect(getCard()?.querySelector('.ai-translation-selection-card__body')?.textContent).toBe('こんにちは世界')
+    expect(getButton('copy').disabled).toBe(false)
+    expect(getButton('replace').disabled).toBe(false)
+  })
+
+  it('should show the translation as text, not markup', () => {
+    card.show(range)
+    card.setTranslation('<img src=x onerror="alert(1)">')
+
+    expect(getCard()?.querySelector('img')).toBeNull()
+  })
+
+  it('should replace the selection with a restorable translated span', () => {
+    card.show(range)
+    card.setTranslation('こんにちは世界')
+    getButton('replace').click()
+
+    const replacement = document.querySelector('#source span')!
+    expect(document.getElementById('source')!.textContent).toBe('Say こんにちは世界 to everyone')
+    expect(replacement.getAttribute('data-original-html')).toBe('hello world')
+    expect(replacement.getAttribute('data-translated')).toBe('true')
+    expect(getCard()).toBeNull()
+  })
+
+  it('should not offer replacing text that has no range', () => {
+    card.show(null)
+    card.setTranslation('こんにちは世界')
+
+    expect(getButton('replace').disabled).toBe(true)
+  })
+
+  it('should copy the translation', async () => {
+    const writeText = vi.fn().mockResolvedValue(undefined)
+    Object.defineProperty(navigator, 'clipboard', { value: { writeText }, configurable: true })
+
+    card.show(range)
+    card.setTranslation('こんにちは世界')
+    await card.copy()
+
+    expect(writeText).toHaveBeenCalledWith('こんにちは世界')
+    expect(getButton('copy').textContent).toBe('Copied')
+  })
+
+  it('should close on Escape or a click elsewhere', () => {
+    card.show(range)
+    document.dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape' }))
+    expect(getCard()).toBeNull()
+
+    card.show(range)
+    getCard()!.dispatchEvent(new MouseEvent('mousedown', { bubbles: true }))
+    expect(getCard()).not.toBeNull()
+
+    document.getElementById('source')!.dispatchEvent(new MouseEvent('mousedown', { bubbles: true }))
+    expect(getCard()).toBeNull()
+  })
+
+  it('should show errors in the card', () => {
+    card.show(range)
+    card.setError('HTTP error! status: 401')
+
+    expect(getCard()?.classList.contains('ai-translation-selection-card--error')).toBe(true)
+    expect(getCard()?.textContent).toContain('HTTP error! status: 401')
+  })
+})
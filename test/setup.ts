@@ -28,4 +28,9 @@ global.chrome = {
       addListener: vi.fn(),
     },
   },
+  commands: {
+    onCommand: {
+      addListener: vi.fn(),
+    },
+  },
 } as any
\ No newline at end of file
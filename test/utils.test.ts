@@ -5,6 +5,7 @@ import {
   placeholdersToHtml,
   clusterTextNodes,
   applyTranslation,
+  validatePlaceholders,
   TextCluster
 } from '../src/utils'
 
@@ -100,6 +101,31 @@ describe('Utils', () => {
       expect(text).toContain('breaks')
       expect(map.size).toBe(2) // <br/> and <img .../>
     })
+ 
+    it('should replace inline code inside a paragraph with an atomic placeholder', () => {
+      const html = '<p>Run <code>npm <em>install</em></code> first</p>'
+      const { text, map } = htmlToPlaceholders(html)
+
+      expect(text).toBe('<p_0>Run <keep_0/> first</p_0>')
+      expect(text).not.toContain('npm')
+      expect(map.get('<keep_0/>')).toBe('<code>npm <em>install</em></code>')
+    })
+
+    it('should keep a code block with nested code as one placeholder', () => {
+      const html = 'Example:<pre class="lang-ts"><code>const a = 1 &lt; 2</code></pre>then <kbd>Ctrl</kbd>'
+      const { text, map } = htmlToPlaceholders(html)
+
+      expect(text).toBe('Example:<keep_0/>then <keep_1/>')
+      expect(map.get('<keep_0/>')).toBe('<pre class="lang-ts"><code>const a = 1 &lt; 2</code></pre>')
+      expect(map.get('<keep_1/>')).toBe('<kbd>Ctrl</kbd>')
+    })
+
+    it('should keep math and content marked as not translatable', () => {
+      const html = 'Area <span class="katex"><span>πr²</span></span> of <span translate="no">Acme</span>'
+      const { text } = htmlToPlaceholders(html)
+
+      expect(text).toBe('Area <keep_0/> of <keep_1/>')
+    })
   })
 
   describe('placeholdersToHtml', () => {
@@ -154,6 +180,17 @@ describe('Utils', () => {
       expect(restoredHtml).toContain('太字')
     })
 
+    it('should restore atomic placeholders verbatim', () => {
+      const html = '<p>Use <code>git &lt;cmd&gt;</code> or <kbd>F1</kbd></p>'
+      const { text, map } = htmlToPlaceholders(html)
+
+      // The model moved the placeholders and wrote one of them without the slash
+      const translated = text.replace('Use <keep_0/> or <keep_1/>', '<keep_0/> または <keep_1 > を使う')
+      const restoredHtml = placeholdersToHtml(translated, map)
+
+      expect(restoredHtml).toBe('<p><code>git &lt;cmd&gt;</code> または <kbd>F1</kbd> を使う</p>')
+    })
+
     it('should handle unmatched placeholders gracefully', () => {
       const html = 'Normal text'
       const { map } = htmlToPlaceholders(html)
@@ -168,6 +205,41 @@ describe('Utils', () => {
     })
   })
 
+  describe('validatePlaceholders', () => {
+    const source = '<p_0>Read <a_0>the <em_0>docs</em_0></a_0><br_0> now</p_0>'
+
+    it('should accept a translation with the same placeholders moved around', () => {
+      const translation = '<p_0><br_0><a_0><em_0>ドキュメント</em_0>を</a_0>今すぐ読む</p_0>'
+
+      expect(validatePlaceholders(source, translation)).toEqual({
+        valid: true,
+        missing: [],
+        unexpected: [],
+        misnested: false
+      })
+    })
+
+    it('should report dropped and invented placeholders', () => {
+      const translation = '<p_0><a_0><em_0>ドキュメント</em_0>を<b_1>今すぐ</b_1>読む</p_0>'
+      const result = validatePlaceholders(source, translation)
+
+      expect(result.valid).toBe(false)
+      expect(result.missing).toEqual(['</a_0>', '<br_0>'])
+      expect(result.unexpected).toEqual(['<b_1>', '</b_1>'])
+    })
+
+    it('should report pairs that close in a different order', () => {
+      const translation = '<p_0><a_0><em_0>ドキュメント</a_0>を</em_0><br_0>今すぐ読む</p_0>'
+      const result = validatePlaceholders(source, translation)
+
+      expect(result).toMatchObject({ valid: false, missing: [], unexpected: [], misnested: true })
+    })
+
+    it('should treat atomic placeholders like any other', () => {
+      expect(validatePlaceholders('Run <keep_0/> first', '最初に実行').missing).toEqual(['<keep_0/>'])
+    })
+  })
+
   describe('clusterTextNodes', () => {
     it('should group text nodes into clusters based on parent elements', () => {
       const div = document.createElement('div')
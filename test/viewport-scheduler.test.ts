@@ -0,0 +1,170 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { ViewportScheduler } from '../src/viewport-scheduler'
+
+// Mock IntersectionObserver that lets tests decide what is in view
+class MockIntersectionObserver {
+  static instances: MockIntersectionObserver[] = []
+  callback: IntersectionObserverCallback
+  options?: IntersectionObserverInit
+  elements = new Set<Element>()
+
+  constructor(callback: IntersectionObserverCallback, options?: IntersectionObserverInit) {
+    this.callback = callback
+    this.options = options
+    MockIntersectionObserver.instances.push(this)
+  }
+
+  observe(element: Element) {
+    this.elements.add(element)
+  }
+
+  unobserve(element: Element) {
+    this.elements.delete(element)
+  }
+
+  disconnect() {
+    this.elements.clear()
+  }
+
+  trigger(changes: Array<{ element: Element; isIntersecting: boolean; top?: number }>) {
+    const entries = changes.map(({ element, isIntersecting, top = 0 }) => ({
+      target: element,
+      isIntersecting,
+      boundingClientRect: { top, bottom: top + 20 } as DOMRectReadOnly
+    }))
+    this.callback(entries as IntersectionObserverEntry[], this as unknown as IntersectionObserver)
+  }
+}
+
+function createParagraph(text: string): HTMLParagraphElement {
+  const element = document.createElement('p')
+  element.textContent = text
+  document.body.appendChild(element)
+  return element
+}
+
+// Stand-in for BatchTranslator: marks every element as translated
+function markTranslated(elements: Element[]): Promise<void> {
+  for (const element of elements) {
+    element.setAttribute('data-translated', 'true')
+  }
+  return Promise.resolve()
+}
+
+describe('ViewportScheduler', () => {
+  let observer: () => MockIntersectionObserver
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    document.body.innerHTML = ''
+    MockIntersectionObserver.instances = []
+    vi.stubGlobal('IntersectionObserver', MockIntersectionObserver)
+    Object.defineProperty(window, 'innerHeight', { value: 800, configurable: true })
+    observer = () => MockIntersectionObserver.instances[MockIntersectionObserver.instances.length - 1]
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+  })
+
+  it('should only translate elements that come into view', async () => {
+    const translate = vi.fn(markTranslated)
+    const scheduler = new ViewportScheduler({ translate })
+    const visible = createParagraph('Visible paragraph')
+    const below = createParagraph('Paragraph far below')
+
+    scheduler.observe([visible, below])
+    observer().trigger([
+      { element: visible, isIntersecting: true },
+      { element: below, isIntersecting: false, top: 5000 }
+    ])
+    await vi.advanceTimersByTimeAsync(200)
+
+    expect(translate).toHaveBeenCalledTimes(1)
+    expect(translate).toHaveBeenCalledWith([visible])
+    expect(observer().elements.has(visible)).toBe(false)
+    expect(observer().elements.has(below)).toBe(true)
+  })
+
+  it('should translate on-screen elements before prefetched ones', async () => {
+    const translate = vi.fn(markTranslated)
+    const scheduler = new ViewportScheduler({ translate })
+    const nearby = createParagraph('Just below the fold')
+    const onScreen = createParagraph('On screen')
+
+    scheduler.observe([nearby, onScreen])
+    observer().trigger([
+      { element: nearby, isIntersecting: true, top: 1000 },
+      { element: onScreen, isIntersecting: true, top: 100 }
+    ])
+    await vi.advanceTimersByTimeAsync(200)
+
+    expect(translate).toHaveBeenCalledWith([onScreen, nearby])
+  })
+
+  it('should drop queued elements that scroll away before their turn', async () => {
+    const translate = vi.fn(markTranslated)
+    const scheduler = new ViewportScheduler({ translate })
+    const passing = createParagraph('Scrolled past quickly')
+
+    scheduler.observe([passing])
+    observer().trigger([{ element: passing, isIntersecting: true }])
+    observer().trigger([{ element: passing, isIntersecting: false, top: -500 }])
+    await vi.advanceTimersByTimeAsync(200)
+
+    expect(translate).not.toHaveBeenCalled()
+  })
+
+  it('should retry failed elements when they scroll back into view', async () => {
+    const translate = vi.fn(async (elements: Element[]) => {
+      for (const element of elements) {
+        element.setAttribute('data-original-html', element.innerHTML)
+        element.setAttribute('data-translation-failed', 'true')
+      }
+    })
+    const scheduler = new ViewportScheduler({ translate })
+    const flaky = createParagraph('Flaky paragraph')
+
+    scheduler.observe([flaky])
+    observer().trigger([{ element: flaky, isIntersecting: true }])
+    await vi.advanceTimersByTimeAsync(200)
+
+    translate.mockImplementation(markTranslated)
+    observer().trigger([{ element: flaky, isIntersecting: false, top: 2000 }])
+    observer().trigger([{ element: flaky, isIntersecting: true }])
+    expect(flaky.hasAttribute('data-translation-failed')).toBe(false)
+    expect(flaky.hasAttribute('data-original-html')).toBe(false)
+    await vi.advanceTimersByTimeAsync(200)
+
+    expect(translate).toHaveBeenCalledTimes(2)
+    expect(flaky.getAttribute('data-translated')).toBe('true')
+  })
+
+  it('should stop observing when the signal aborts', async () => {
+    const translate = vi.fn(markTranslated)
+    const controller = new AbortController()
+    const scheduler = new ViewportScheduler({ translate, signal: controller.signal })
+    const element = createParagraph('Never translated')
+
+    scheduler.observe([element])
+    observer().trigger([{ element, isIntersecting: true }])
+    controller.abort()
+    await vi.advanceTimersByTimeAsync(200)
+
+    expect(translate).not.toHaveBeenCalled()
+    expect(observer().elements.size).toBe(0)
+  })
+
+  it('should report when the queue drains', async () => {
+    const onIdle = vi.fn()
+    const scheduler = new ViewportScheduler({ translate: markTranslated, onIdle })
+    const element = createParagraph('Visible paragraph')
+
+    scheduler.observe([element])
+    observer().trigger([{ element, isIntersecting: true }])
+    await vi.advanceTimersByTimeAsync(200)
+
+    expect(onIdle).toHaveBeenCalledTimes(1)
+  })
+})
@@ -1,6 +1,7 @@
 // Test for batch boundary handling in BatchTranslator
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { BatchTranslator } from '../src/batch-translator'
+import { htmlToPlaceholders, validatePlaceholders } from '../src/utils'
 
 // Mock dependencies
 vi.mock('../src/cache', () => ({
@@ -14,14 +15,6 @@ vi.mock('../src/api', () => ({
   translateText: vi.fn()
 }))
 
-vi.mock('../src/utils', () => ({
-  htmlToPlaceholders: vi.fn((html) => ({
-    text: html.replace(/<[^>]*>/g, ''), // Simple HTML strip for testing
-    map: new Map()
-  })),
-  placeholdersToHtml: vi.fn((text) => text)
-}))
-
 describe('BatchTranslator - Element Boundary Handling', () => {
   let translator: BatchTranslator
   
@@ -185,6 +178,159 @@ describe('BatchTranslator - Element Boundary Handling', () => {
   })
 })
 
+describe('BatchTranslator - Placeholder-balanced chunks', () => {
+  // A Wikipedia-style lead paragraph: links inside italics inside spans, citation superscripts,
+  // and a long link whose text runs across several sentences
+  const wikipediaParagraph = [
+    '<b>Kyoto</b> (<span class="nowrap"><span lang="ja"><a href="/wiki/Japanese_language" title="Japanese language">Japanese</a>: <i lang="ja-Latn">Kyōto</i></span></span>) is a city in the <a href="/wiki/Kansai" title="Kansai">Kansai region</a> of Japan.',
+    '<sup id="cite_ref-1" class="reference"><a href="#cite_note-1"><span class="cite-bracket">[</span>1<span class="cite-bracket">]</span></a></sup>',
+    ' <a href="/wiki/History_of_Kyoto" title="History of Kyoto"><i>It was the capital for over a thousand years. The imperial court moved to Tokyo in 1869. The city kept its temples, shrines and gardens.</i></a>',
+    ' It is known for <span class="mw-highlight"><em><a href="/wiki/Kiyomizu-dera">Kiyomizu-dera</a> and the <a href="/wiki/Fushimi_Inari-taisha">Fushimi Inari shrine</a></em></span>, both listed sites.',
+    ' Its population was about 1.46 million in 2020.<sup class="reference"><a href="#cite_note-2">[2]</a></sup>'
+  ].join('')
+  
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+  
+  it('should keep every placeholder pair balanced within each chunk', async () => {
+    const { requests } = await translateWithIdentity(wikipediaParagraph, 300)
+    
+    expect(requests.length).toBeGreaterThan(2)
+    for (const chunk of requests) {
+      expect(chunk.length).toBeLessThanOrEqual(300)
+      // A chunk checked against itself only fails if its own pairs are unbalanced or misnested
+      const opening = chunk.match(/<[a-z0-9]+_\d+>/g) || []
+      const closing = chunk.match(/<\/[a-z0-9]+_\d+>/g) || []
+      expect(closing.map(tag => tag.replace('</', '<')).sort()).toEqual(opening.sort())
+      expect(validatePlaceholders(chunk, chunk).valid).toBe(true)
+    }
+  })
+  
+  it('should close and reopen a link that spans the split', async () => {
+    const { requests } = await translateWithIdentity(wikipediaParagraph, 300)
+    const { text } = htmlToPlaceholders(wikipediaParagraph)
+    const historyLink = text.match(/<a_\d+>(?=<i_\d+>It was)/)![0]
+    
+    const withLink = requests.filter(chunk => chunk.includes(historyLink))
+    expect(withLink.length).toBeGreaterThan(1)
+    expect(withLink[1].startsWith(historyLink)).toBe(true)
+  })
+  
+  it('should reassemble the chunks into the original markup', async () => {
+    const { element, originalHTML } = await translateWithIdentity(wikipediaParagraph, 300)
+    
+    expect(element.innerHTML).toBe(originalHTML)
+    expect(element.querySelectorAll('a')).toHaveLength(7)
+  })
+  
+  it('should never cut through a placeholder when a sentence has no spaces', async () => {
+    const html = '<a href="/wiki/A">' + '長い文章'.repeat(40) + '</a><a href="/wiki/B">' + '続き'.repeat(40) + '</a>'
+    const { element, originalHTML, requests } = await translateWithIdentity(html, 100)
+    
+    for (const chunk of requests) {
+      expect(chunk).not.toMatch(/<[^>]*$|^[^<]*>/)
+    }
+    expect(element.innerHTML).toBe(originalHTML)
+  })
+})
+
+describe('BatchTranslator - Language-aware segmentation', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+  
+  it('should split Japanese text at 。 and rejoin it without spaces', async () => {
+    const sentences = [
+      '京都は日本の関西地方にある都市で、千年以上にわたって都が置かれていました。',
+      '明治時代に天皇が東京へ移った後も、多くの寺院や神社、庭園が残されています！',
+      '毎年多くの観光客が訪れ、伝統的な祭りや料理を楽しんでいますが、混雑も課題ですか？',
+      '人口はおよそ百四十六万人です。'
+    ]
+    const { element, originalHTML, requests } = await translateWithIdentity(sentences.join(''), 100, 'ja')
+    
+    expect(requests.length).toBeGreaterThan(1)
+    for (const chunk of requests) {
+      expect(chunk).toMatch(/[。！？]$/)
+    }
+    expect(element.innerHTML).toBe(originalHTML)
+  })
+  
+  it('should fall back to clause boundaries for an overlong sentence', async () => {
+    const clause = '古い町並みが続く通りを歩くと、'
+    const { element, originalHTML, requests } = await translateWithIdentity(clause.repeat(12) + '最後に川へ出ます。', 100, 'ja')
+    
+    for (const chunk of requests.slice(0, -1)) {
+      expect(chunk.endsWith('、')).toBe(true)
+    }
+    expect(element.innerHTML).toBe(originalHTML)
+  })
+  
+  it('should fall back to word boundaries, never splitting a word', async () => {
+    const words = 'the quick brown fox jumps over the lazy dog while the slow cat watches'.split(' ')
+    const text = Array.from({ length: 12 }, () => words.join(' ')).join(' ')
+    const { element, originalHTML, requests } = await translateWithIdentity(text, 100, 'en')
+    
+    expect(requests.length).toBeGreaterThan(1)
+    for (const chunk of requests) {
+      expect(chunk.split(' ').every(word => words.includes(word))).toBe(true)
+    }
+    expect(element.innerHTML).toBe(originalHTML)
+  })
+  
+  it('should keep a closing tag with the sentence that ends inside it', async () => {
+    const html = '<a href="/wiki/A">' + 'あいうえお'.repeat(6) + '。</a><b>' + 'さしすせそ'.repeat(6) + '。</b><i>' + 'たちつてと'.repeat(6) + '。</i>'
+    const { element, originalHTML, requests } = await translateWithIdentity(html, 80, 'ja')
+    
+    expect(requests.length).toBeGreaterThan(1)
+    for (const chunk of requests) {
+      // No pair is reopened just to be closed again, and no chunk ends by opening one
+      expect(chunk).not.toMatch(/<([a-z0-9]+_\d+)><\/\1>/)
+      expect(chunk).not.toMatch(/<[a-z0-9]+_\d+>$/)
+      // Every chunk has text to translate, not just placeholders
+      expect(chunk.replace(/<[^>]+>/g, '').trim()).not.toBe('')
+    }
+    expect(element.innerHTML).toBe(originalHTML)
+  })
+  
+  it('should never split a surrogate pair', async () => {
+    // 𠮷 and emoji are outside the BMP, so each one is two UTF-16 code units
+    const { element, originalHTML, requests } = await translateWithIdentity('𠮷😀'.repeat(60), 100)
+    
+    expect(requests.length).toBeGreaterThan(1)
+    for (const chunk of requests) {
+      expect(chunk).not.toMatch(/^[\uDC00-\uDFFF]|[\uD800-\uDBFF]$/)
+    }
+    expect(element.innerHTML).toBe(originalHTML)
+  })
+})
+
+const settings = {
+  apiEndpoint: 'test',
+  apiKey: 'test',
+  model: 'test',
+  targetLanguage: 'Japanese'
+}
+
+// Echo each segment back, so reassembly must reproduce the original markup exactly
+async function translateWithIdentity(html: string, maxCharactersPerBatch: number, lang?: string) {
+  const { translateText } = await import('../src/api')
+  const requests: string[] = []
+  vi.mocked(translateText).mockImplementation(async (params) => {
+    requests.push(params.text)
+    return { translatedText: params.text }
+  })
+  vi.spyOn(console, 'warn').mockImplementation(() => {})
+  
+  const element = createMockElement(html)
+  if (lang) {
+    element.setAttribute('lang', lang)
+  }
+  const originalHTML = element.innerHTML
+  await new BatchTranslator({ maxCharactersPerBatch }).translateElements([element], settings)
+  return { element, originalHTML, requests }
+}
+
 // Helper function to create mock DOM elements
 function createMockElement(innerHTML: string): Element {
   const element = document.createElement('p')